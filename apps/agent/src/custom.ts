@@ -0,0 +1,405 @@
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import YAML from "yaml";
+import type {
+  HardeningProfile,
+  NetworkPolicy,
+  ResourceLimits,
+  RuntimeOptions,
+} from "./types.js";
+import { applyResourceLimits } from "./limits.js";
+import { applyHardening, assertServiceSafe } from "./hardening.js";
+import { applyNetworkPolicy } from "./network.js";
+
+const COMPOSE_FILE_NAMES = [
+  "compose.yaml",
+  "compose.yml",
+  "docker-compose.yaml",
+  "docker-compose.yml",
+];
+
+type ComposeDocument = {
+  name?: string;
+  services?: Record<string, Record<string, unknown>>;
+  volumes?: Record<string, Record<string, unknown> | null>;
+  networks?: Record<string, Record<string, unknown> | null>;
+  secrets?: Record<string, Record<string, unknown>>;
+  configs?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+};
+
+type PublishedPort = {
+  service: string;
+  index: number;
+  containerPort: number;
+};
+
+async function isFile(filePath: string): Promise<boolean> {
+  return await fs
+    .stat(filePath)
+    .then((stat) => stat.isFile())
+    .catch(() => false);
+}
+
+export async function findPackComposeFile(packDir: string): Promise<string | null> {
+  for (const name of COMPOSE_FILE_NAMES) {
+    const candidate = path.join(packDir, name);
+    if (await isFile(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function parseExposedPort(dockerfile: string): number | null {
+  for (const line of dockerfile.split(/\r?\n/)) {
+    const match = /^\s*EXPOSE\s+(\d+)/i.exec(line);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return null;
+}
+
+function parseContainerPort(entry: unknown): number | null {
+  if (typeof entry === "number") {
+    return entry;
+  }
+  if (typeof entry === "string") {
+    const withoutProto = entry.split("/")[0];
+    const parts = withoutProto.split(":");
+    const target = Number(parts[parts.length - 1]);
+    return Number.isInteger(target) ? target : null;
+  }
+  if (entry && typeof entry === "object") {
+    const target = Number((entry as { target?: unknown }).target);
+    return Number.isInteger(target) ? target : null;
+  }
+  return null;
+}
+
+function findPublishedPort(doc: ComposeDocument): PublishedPort {
+  const published: PublishedPort[] = [];
+  for (const [service, definition] of Object.entries(doc.services ?? {})) {
+    const ports = definition.ports;
+    if (typeof ports === "undefined") {
+      continue;
+    }
+    if (!Array.isArray(ports)) {
+      throw new Error(`${service}のportsが不正です`);
+    }
+    ports.forEach((entry, index) => {
+      const containerPort = parseContainerPort(entry);
+      if (!containerPort || containerPort < 1 || containerPort > 65535) {
+        throw new Error(`${service}のportsが不正です`);
+      }
+      published.push({ service, index, containerPort });
+    });
+  }
+  if (published.length !== 1) {
+    throw new Error("composeで公開するポートはちょうど1つにしてください");
+  }
+  return published[0];
+}
+
+function resolveInsidePack(packDir: string, source: string, label: string): string {
+  if (source.startsWith("~") || path.isAbsolute(source)) {
+    throw new Error(`${label}にパック外のパスは指定できません`);
+  }
+  const resolved = path.resolve(packDir, source);
+  const root = path.resolve(packDir);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`${label}にパック外のパスは指定できません`);
+  }
+  return resolved;
+}
+
+function isBindSource(source: string): boolean {
+  return source.startsWith(".") || source.startsWith("/") || source.startsWith("~");
+}
+
+function rewriteVolumes(
+  service: string,
+  volumes: unknown,
+  packDir: string,
+  composeDir: string
+): unknown[] {
+  if (!Array.isArray(volumes)) {
+    throw new Error(`${service}のvolumesが不正です`);
+  }
+  return volumes.map((volume) => {
+    if (typeof volume === "string") {
+      const [source, ...rest] = volume.split(":");
+      if (rest.length === 0 || !isBindSource(source)) {
+        return volume;
+      }
+      const resolved = resolveInsidePack(packDir, source, `${service}のvolumes`);
+      return [path.relative(composeDir, resolved), ...rest].join(":");
+    }
+    if (volume && typeof volume === "object") {
+      const entry = { ...(volume as Record<string, unknown>) };
+      if (entry.type === "bind") {
+        const resolved = resolveInsidePack(packDir, String(entry.source ?? ""), `${service}のvolumes`);
+        entry.source = path.relative(composeDir, resolved);
+      }
+      return entry;
+    }
+    throw new Error(`${service}のvolumesが不正です`);
+  });
+}
+
+function rewriteAdditionalContexts(
+  service: string,
+  contexts: unknown,
+  packDir: string,
+  composeDir: string
+): unknown {
+  const rewrite = (name: string, source: string): string => {
+    if (/^(docker-image|service|oci-layout):/.test(source)) {
+      return source;
+    }
+    if (/^[a-z][a-z0-9+.-]*:/i.test(source)) {
+      throw new Error(`${service}のbuild.additional_contexts.${name}は許可されていません`);
+    }
+    const resolved = resolveInsidePack(packDir, source, `${service}のbuild.additional_contexts`);
+    return path.relative(composeDir, resolved) || ".";
+  };
+  if (Array.isArray(contexts)) {
+    return contexts.map((entry) => {
+      const [name, ...rest] = String(entry).split("=");
+      return `${name}=${rewrite(name, rest.join("="))}`;
+    });
+  }
+  if (contexts && typeof contexts === "object") {
+    return Object.fromEntries(
+      Object.entries(contexts).map(([name, source]) => [name, rewrite(name, String(source))])
+    );
+  }
+  throw new Error(`${service}のbuild.additional_contextsが不正です`);
+}
+
+function rewriteBuild(
+  service: string,
+  build: Record<string, unknown>,
+  packDir: string,
+  composeDir: string
+): Record<string, unknown> {
+  const next = { ...build };
+  const context = resolveInsidePack(packDir, String(next.context ?? "."), `${service}のbuild`);
+  next.context = path.relative(composeDir, context) || ".";
+  if (typeof next.dockerfile === "string") {
+    resolveInsidePack(
+      packDir,
+      path.join(path.relative(packDir, context), next.dockerfile),
+      `${service}のbuild.dockerfile`
+    );
+  }
+  if (typeof next.network !== "undefined" && next.network !== "default") {
+    throw new Error(`${service}: build.network: ${String(next.network)} は許可されていません`);
+  }
+  if (typeof next.additional_contexts !== "undefined") {
+    next.additional_contexts = rewriteAdditionalContexts(
+      service,
+      next.additional_contexts,
+      packDir,
+      composeDir
+    );
+  }
+  return next;
+}
+
+function rewriteService(
+  service: string,
+  definition: Record<string, unknown>,
+  packDir: string,
+  composeDir: string
+): Record<string, unknown> {
+  assertServiceSafe(service, definition);
+  const next = { ...definition };
+  delete next.container_name;
+
+  if (typeof next.build === "string") {
+    const context = resolveInsidePack(packDir, next.build, `${service}のbuild`);
+    next.build = path.relative(composeDir, context) || ".";
+  } else if (next.build && typeof next.build === "object") {
+    next.build = rewriteBuild(service, next.build as Record<string, unknown>, packDir, composeDir);
+  }
+
+  if (next.extends && typeof next.extends === "object" && "file" in next.extends) {
+    throw new Error(`${service}: extends.fileは許可されていません`);
+  }
+
+  if (typeof next.volumes !== "undefined") {
+    next.volumes = rewriteVolumes(service, next.volumes, packDir, composeDir);
+  }
+
+  if (typeof next.env_file !== "undefined") {
+    const files = Array.isArray(next.env_file) ? next.env_file : [next.env_file];
+    next.env_file = files.map((file) => {
+      if (file && typeof file === "object") {
+        const entry = { ...(file as Record<string, unknown>) };
+        const resolved = resolveInsidePack(packDir, String(entry.path ?? ""), `${service}のenv_file`);
+        entry.path = path.relative(composeDir, resolved);
+        return entry;
+      }
+      const resolved = resolveInsidePack(packDir, String(file), `${service}のenv_file`);
+      return path.relative(composeDir, resolved);
+    });
+  }
+  return next;
+}
+
+function rewriteFileReferences(
+  section: "secrets" | "configs",
+  entries: Record<string, Record<string, unknown>> | undefined,
+  packDir: string,
+  composeDir: string
+): Record<string, Record<string, unknown>> | undefined {
+  if (!entries) {
+    return entries;
+  }
+  const next: Record<string, Record<string, unknown>> = {};
+  for (const [name, entry] of Object.entries(entries)) {
+    if (entry?.external) {
+      throw new Error(`${section}.${name}: externalは許可されていません`);
+    }
+    if (typeof entry?.file === "string") {
+      const resolved = resolveInsidePack(packDir, entry.file, `${section}.${name}`);
+      next[name] = { ...entry, file: path.relative(composeDir, resolved) };
+    } else {
+      next[name] = entry;
+    }
+  }
+  return next;
+}
+
+function assertTopLevelSafe(doc: ComposeDocument): void {
+  if (typeof doc.include !== "undefined") {
+    throw new Error("includeは許可されていません");
+  }
+  for (const [name, volume] of Object.entries(doc.volumes ?? {})) {
+    if (volume?.external || volume?.driver_opts) {
+      throw new Error(`volumes.${name}: external/driver_optsは許可されていません`);
+    }
+  }
+  for (const [name, network] of Object.entries(doc.networks ?? {})) {
+    if (network?.external) {
+      throw new Error(`networks.${name}: externalは許可されていません`);
+    }
+  }
+}
+
+function hasInterpolation(value: unknown): boolean {
+  if (typeof value === "string") {
+    return value.replaceAll("$$", "").includes("$");
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasInterpolation);
+  }
+  if (value && typeof value === "object") {
+    return Object.entries(value).some(
+      ([key, entry]) => hasInterpolation(key) || hasInterpolation(entry)
+    );
+  }
+  return false;
+}
+
+function parseComposeDocument(content: string): ComposeDocument {
+  const doc = YAML.parse(content) as ComposeDocument | null;
+  if (!doc || typeof doc !== "object" || !doc.services || typeof doc.services !== "object") {
+    throw new Error("composeファイルにservicesがありません");
+  }
+  if (hasInterpolation(doc)) {
+    throw new Error(
+      "composeファイルで変数の展開 ($) は使用できません。$ を使う場合は $$ と書いてください"
+    );
+  }
+  return doc;
+}
+
+export async function inspectCustomPack(
+  packDir: string,
+  options: RuntimeOptions
+): Promise<RuntimeOptions> {
+  const composePath = await findPackComposeFile(packDir);
+  if (composePath) {
+    const doc = parseComposeDocument(await fs.readFile(composePath, "utf8"));
+    assertTopLevelSafe(doc);
+    for (const [service, definition] of Object.entries(doc.services ?? {})) {
+      rewriteService(service, definition ?? {}, packDir, packDir);
+    }
+    const published = findPublishedPort(doc);
+    return {
+      ...options,
+      custom_mode: "compose",
+      custom_container_port: published.containerPort,
+    };
+  }
+
+  const dockerfilePath = path.join(packDir, "Dockerfile");
+  if (!(await isFile(dockerfilePath))) {
+    throw new Error("customランタイムにはDockerfileまたはdocker-compose.ymlが必要です");
+  }
+  const exposed = parseExposedPort(await fs.readFile(dockerfilePath, "utf8"));
+  const containerPort = options.custom_container_port ?? exposed;
+  if (!containerPort) {
+    throw new Error("DockerfileにEXPOSEが無いためコンテナポートを指定してください");
+  }
+  return { ...options, custom_mode: "dockerfile", custom_container_port: containerPort };
+}
+
+export async function writeCustomCompose(
+  composeDir: string,
+  packDir: string,
+  hostBinding: string,
+  composeProject: string,
+  resourceLimits: ResourceLimits,
+  hardening: HardeningProfile,
+  networkPolicy: NetworkPolicy
+): Promise<void> {
+  const composePath = await findPackComposeFile(packDir);
+  if (!composePath) {
+    throw new Error("パック内にdocker-compose.ymlが見つかりません");
+  }
+  const doc = parseComposeDocument(await fs.readFile(composePath, "utf8"));
+  assertTopLevelSafe(doc);
+
+  const services: Record<string, Record<string, unknown>> = {};
+  for (const [service, definition] of Object.entries(doc.services ?? {})) {
+    const rewritten = rewriteService(service, definition ?? {}, packDir, composeDir);
+    services[service] = applyHardening(applyResourceLimits(rewritten, resourceLimits), hardening);
+  }
+  const published = findPublishedPort(doc);
+  const ports = [...(services[published.service].ports as unknown[])];
+  ports[published.index] = `${hostBinding}:${published.containerPort}`;
+  services[published.service].ports = ports;
+
+  const rendered: ComposeDocument = {
+    name: composeProject,
+    ...doc,
+    services,
+    secrets: rewriteFileReferences("secrets", doc.secrets, packDir, composeDir),
+    configs: rewriteFileReferences("configs", doc.configs, packDir, composeDir),
+  };
+  rendered.name = composeProject;
+  if (!rendered.secrets) {
+    delete rendered.secrets;
+  }
+  if (!rendered.configs) {
+    delete rendered.configs;
+  }
+  delete rendered.version;
+
+  const withNetworks = applyNetworkPolicy(rendered, networkPolicy, {
+    service: published.service,
+    containerPort: published.containerPort,
+    hostBinding,
+  });
+
+  await fs.mkdir(composeDir, { recursive: true });
+  await fs.writeFile(
+    path.join(composeDir, "docker-compose.yml"),
+    YAML.stringify(withNetworks),
+    "utf8"
+  );
+}
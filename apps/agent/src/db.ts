@@ -1,12 +1,26 @@
 import Database from "better-sqlite3";
 import crypto from "node:crypto";
-import type { Challenge, Instance, PortRange, Settings } from "./types.js";
+import type {
+  Challenge,
+  Instance,
+  Job,
+  JobPhase,
+  JobStatus,
+  PortRange,
+  ProxyMode,
+  ResourceLimits,
+  Settings,
+} from "./types.js";
+import { DEFAULT_RESOURCE_LIMITS } from "./limits.js";
+import { slugify } from "./slug.js";
 
 const DEFAULT_PORT_RANGES: PortRange[] = [
   { start: 43000, end: 43100 },
 ];
 const DEFAULT_MYSQL_DATABASE = "ctf";
 const DEFAULT_MYSQL_USER = "root";
+const DEFAULT_POSTGRES_DATABASE = "ctf";
+const DEFAULT_POSTGRES_USER = "postgres";
 
 function generatePassword(): string {
   return crypto.randomBytes(12).toString("base64url");
@@ -21,8 +35,12 @@ export function initDb(dbPath: string): DbContext {
   db.pragma("journal_mode = WAL");
   migrate(db);
   const columns = ensureSettingsColumns(db);
+  ensureChallengeColumns(db);
+  ensureChallengeSlugs(db);
+  ensureInstanceColumns(db);
   ensureSettings(db);
   normalizeSettings(db, columns);
+  ensurePortLeases(db);
   return { db };
 }
 
@@ -37,6 +55,12 @@ function migrate(db: Database.Database): void {
       mysql_database TEXT,
       mysql_user TEXT,
       mysql_password TEXT,
+      postgres_database TEXT,
+      postgres_user TEXT,
+      postgres_password TEXT,
+      default_ttl_minutes INTEGER NOT NULL DEFAULT 0,
+      resource_limits_json TEXT,
+      shell_enabled INTEGER NOT NULL DEFAULT 0,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
@@ -46,6 +70,14 @@ function migrate(db: Database.Database): void {
       runtime TEXT NOT NULL,
       runtime_version TEXT NOT NULL,
       db_type TEXT NOT NULL,
+      runtime_options_json TEXT NOT NULL DEFAULT '{}',
+      sidecars_json TEXT NOT NULL DEFAULT '[]',
+      bot_json TEXT NOT NULL DEFAULT 'null',
+      flag_json TEXT NOT NULL DEFAULT 'null',
+      max_instances INTEGER NOT NULL DEFAULT 1,
+      resource_limits_json TEXT NOT NULL DEFAULT '{}',
+      hardening TEXT NOT NULL DEFAULT 'default',
+      network_policy_json TEXT NOT NULL DEFAULT '{"mode":"egress","allowlist":[]}',
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL,
       files_hash TEXT NOT NULL,
@@ -54,13 +86,36 @@ function migrate(db: Database.Database): void {
     CREATE TABLE IF NOT EXISTS instances (
       id TEXT PRIMARY KEY,
       challenge_id TEXT NOT NULL,
+      owner TEXT NOT NULL DEFAULT '',
       status TEXT NOT NULL,
       host_port INTEGER NOT NULL,
       container_port INTEGER NOT NULL,
       compose_project TEXT NOT NULL,
+      expires_at TEXT,
       created_at TEXT NOT NULL,
       updated_at TEXT NOT NULL
     );
+    CREATE TABLE IF NOT EXISTS port_leases (
+      port INTEGER PRIMARY KEY,
+      instance_id TEXT NOT NULL UNIQUE,
+      created_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL,
+      phase TEXT NOT NULL,
+      message TEXT,
+      error TEXT,
+      challenge_id TEXT,
+      instance_id TEXT,
+      payload_json TEXT NOT NULL DEFAULT '{}',
+      result_json TEXT NOT NULL DEFAULT 'null',
+      created_at TEXT NOT NULL,
+      started_at TEXT,
+      finished_at TEXT,
+      updated_at TEXT NOT NULL
+    );
   `);
 }
 
@@ -69,9 +124,9 @@ function ensureSettingsColumns(db: Database.Database): string[] {
     .prepare("PRAGMA table_info(settings)")
     .all()
     .map((row) => (row as { name: string }).name);
-  const addColumn = (name: string) => {
+  const addColumn = (name: string, definition = "TEXT") => {
     if (!columns.includes(name)) {
-      db.exec(`ALTER TABLE settings ADD COLUMN ${name} TEXT`);
+      db.exec(`ALTER TABLE settings ADD COLUMN ${name} ${definition}`);
     }
   };
   addColumn("mysql_root_password");
@@ -80,9 +135,89 @@ function ensureSettingsColumns(db: Database.Database): string[] {
   addColumn("mysql_password");
   addColumn("host");
   addColumn("host_scheme");
+  addColumn("postgres_database");
+  addColumn("postgres_user");
+  addColumn("postgres_password");
+  addColumn("default_ttl_minutes", "INTEGER NOT NULL DEFAULT 0");
+  addColumn("resource_limits_json");
+  addColumn("shell_enabled", "INTEGER NOT NULL DEFAULT 0");
+  addColumn("bind_address", "TEXT NOT NULL DEFAULT ''");
+  addColumn("excluded_ports_json", "TEXT NOT NULL DEFAULT '[]'");
+  addColumn("proxy_enabled", "INTEGER NOT NULL DEFAULT 0");
+  addColumn("proxy_port", "INTEGER NOT NULL DEFAULT 8080");
+  addColumn("proxy_mode", "TEXT NOT NULL DEFAULT 'host'");
   return columns;
 }
 
+function ensureChallengeColumns(db: Database.Database): void {
+  const columns = db
+    .prepare("PRAGMA table_info(challenges)")
+    .all()
+    .map((row) => (row as { name: string }).name);
+  const addColumn = (name: string, definition: string) => {
+    if (!columns.includes(name)) {
+      db.exec(`ALTER TABLE challenges ADD COLUMN ${name} ${definition}`);
+    }
+  };
+  addColumn("runtime_options_json", "TEXT NOT NULL DEFAULT '{}'");
+  addColumn("sidecars_json", "TEXT NOT NULL DEFAULT '[]'");
+  addColumn("bot_json", "TEXT NOT NULL DEFAULT 'null'");
+  addColumn("flag_json", "TEXT NOT NULL DEFAULT 'null'");
+  addColumn("max_instances", "INTEGER NOT NULL DEFAULT 1");
+  addColumn("resource_limits_json", "TEXT NOT NULL DEFAULT '{}'");
+  addColumn("hardening", "TEXT NOT NULL DEFAULT 'default'");
+  addColumn("network_policy_json", `TEXT NOT NULL DEFAULT '{"mode":"egress","allowlist":[]}'`);
+  addColumn(
+    "healthcheck_json",
+    `TEXT NOT NULL DEFAULT '{"path":"/","expected_status":null,"timeout_seconds":180}'`
+  );
+  addColumn("port_policy", "TEXT NOT NULL DEFAULT 'auto'");
+  addColumn("preferred_port", "INTEGER");
+  addColumn("last_port", "INTEGER");
+  addColumn("bind_address", "TEXT");
+  addColumn("slug", "TEXT");
+}
+
+function ensureChallengeSlugs(db: Database.Database): void {
+  const rows = db
+    .prepare("SELECT id, name FROM challenges WHERE slug IS NULL ORDER BY created_at")
+    .all() as { id: string; name: string }[];
+  for (const row of rows) {
+    db.prepare("UPDATE challenges SET slug = ? WHERE id = ?").run(
+      generateChallengeSlug(db, row.name, row.id),
+      row.id
+    );
+  }
+  db.exec("CREATE UNIQUE INDEX IF NOT EXISTS idx_challenges_slug ON challenges (slug)");
+}
+
+function ensureInstanceColumns(db: Database.Database): void {
+  const columns = db
+    .prepare("PRAGMA table_info(instances)")
+    .all()
+    .map((row) => (row as { name: string }).name);
+  const addColumn = (name: string, definition: string) => {
+    if (!columns.includes(name)) {
+      db.exec(`ALTER TABLE instances ADD COLUMN ${name} ${definition}`);
+    }
+  };
+  addColumn("owner", "TEXT NOT NULL DEFAULT ''");
+  addColumn("expires_at", "TEXT");
+  addColumn("status_reason", "TEXT");
+}
+
+function ensurePortLeases(db: Database.Database): void {
+  db.transaction(() => {
+    db.prepare("DELETE FROM port_leases WHERE instance_id NOT IN (SELECT id FROM instances)").run();
+    db.prepare(
+      `INSERT OR IGNORE INTO port_leases (port, instance_id, created_at)
+       SELECT host_port, id, created_at FROM instances
+       WHERE id NOT IN (SELECT instance_id FROM port_leases)
+       ORDER BY status IN ('starting','running') DESC, updated_at DESC`
+    ).run();
+  })();
+}
+
 function ensureSettings(db: Database.Database): void {
   const row = db.prepare("SELECT id FROM settings WHERE id = 1").get();
   if (!row) {
@@ -98,9 +233,12 @@ function ensureSettings(db: Database.Database): void {
         mysql_database,
         mysql_user,
         mysql_password,
+        postgres_database,
+        postgres_user,
+        postgres_password,
         created_at,
         updated_at
-      ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ) VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).run(
       JSON.stringify(DEFAULT_PORT_RANGES),
       "",
@@ -109,6 +247,9 @@ function ensureSettings(db: Database.Database): void {
       DEFAULT_MYSQL_DATABASE,
       DEFAULT_MYSQL_USER,
       mysqlRootPassword,
+      DEFAULT_POSTGRES_DATABASE,
+      DEFAULT_POSTGRES_USER,
+      generatePassword(),
       now,
       now
     );
@@ -151,6 +292,26 @@ function normalizeSettings(db: Database.Database, columns: string[]): void {
     mysqlPassword = mysqlUser === "root" ? mysqlRootPassword : generatePassword();
     changed = true;
   }
+  let postgresDatabase = current.postgres_database;
+  if (!postgresDatabase) {
+    postgresDatabase = DEFAULT_POSTGRES_DATABASE;
+    changed = true;
+  }
+  let postgresUser = current.postgres_user;
+  if (!postgresUser) {
+    postgresUser = DEFAULT_POSTGRES_USER;
+    changed = true;
+  }
+  let postgresPassword = current.postgres_password;
+  if (!postgresPassword) {
+    postgresPassword = generatePassword();
+    changed = true;
+  }
+  let resourceLimitsJson = current.resource_limits_json;
+  if (!resourceLimitsJson) {
+    resourceLimitsJson = JSON.stringify(DEFAULT_RESOURCE_LIMITS);
+    changed = true;
+  }
   let hostScheme = current.host_scheme;
   if (hostScheme !== "http" && hostScheme !== "https") {
     hostScheme = "http";
@@ -166,6 +327,10 @@ function normalizeSettings(db: Database.Database, columns: string[]): void {
         mysql_database = ?,
         mysql_user = ?,
         mysql_password = ?,
+        postgres_database = ?,
+        postgres_user = ?,
+        postgres_password = ?,
+        resource_limits_json = ?,
         updated_at = ?
       WHERE id = 1`
     ).run(
@@ -175,6 +340,10 @@ function normalizeSettings(db: Database.Database, columns: string[]): void {
       mysqlDatabase,
       mysqlUser,
       mysqlPassword,
+      postgresDatabase,
+      postgresUser,
+      postgresPassword,
+      resourceLimitsJson,
       now
     );
   }
@@ -192,6 +361,17 @@ export type SettingsUpdate = {
   mysqlDatabase?: string;
   mysqlUser?: string;
   mysqlPassword?: string;
+  postgresDatabase?: string;
+  postgresUser?: string;
+  postgresPassword?: string;
+  defaultTtlMinutes?: number;
+  resourceLimits?: ResourceLimits;
+  shellEnabled?: boolean;
+  bindAddress?: string;
+  excludedPorts?: PortRange[];
+  proxyEnabled?: boolean;
+  proxyPort?: number;
+  proxyMode?: ProxyMode;
 };
 
 export function updateSettings(db: Database.Database, update: SettingsUpdate): Settings {
@@ -205,6 +385,23 @@ export function updateSettings(db: Database.Database, update: SettingsUpdate): S
   const mysqlDatabase = update.mysqlDatabase ?? current.mysql_database;
   const mysqlUser = update.mysqlUser ?? current.mysql_user;
   const mysqlPassword = update.mysqlPassword ?? current.mysql_password;
+  const postgresDatabase = update.postgresDatabase ?? current.postgres_database;
+  const postgresUser = update.postgresUser ?? current.postgres_user;
+  const postgresPassword = update.postgresPassword ?? current.postgres_password;
+  const defaultTtlMinutes = update.defaultTtlMinutes ?? current.default_ttl_minutes;
+  const resourceLimitsJson = update.resourceLimits
+    ? JSON.stringify(update.resourceLimits)
+    : current.resource_limits_json;
+  const shellEnabled =
+    update.shellEnabled === undefined ? current.shell_enabled : update.shellEnabled ? 1 : 0;
+  const bindAddress = update.bindAddress ?? current.bind_address;
+  const excludedPortsJson = update.excludedPorts
+    ? JSON.stringify(update.excludedPorts)
+    : current.excluded_ports_json;
+  const proxyEnabled =
+    update.proxyEnabled === undefined ? current.proxy_enabled : update.proxyEnabled ? 1 : 0;
+  const proxyPort = update.proxyPort ?? current.proxy_port;
+  const proxyMode = update.proxyMode ?? current.proxy_mode;
   const now = new Date().toISOString();
   db.prepare(
     `UPDATE settings SET
@@ -215,6 +412,17 @@ export function updateSettings(db: Database.Database, update: SettingsUpdate): S
       mysql_database = ?,
       mysql_user = ?,
       mysql_password = ?,
+      postgres_database = ?,
+      postgres_user = ?,
+      postgres_password = ?,
+      default_ttl_minutes = ?,
+      resource_limits_json = ?,
+      shell_enabled = ?,
+      bind_address = ?,
+      excluded_ports_json = ?,
+      proxy_enabled = ?,
+      proxy_port = ?,
+      proxy_mode = ?,
       updated_at = ?
      WHERE id = 1`
   ).run(
@@ -225,6 +433,17 @@ export function updateSettings(db: Database.Database, update: SettingsUpdate): S
     mysqlDatabase,
     mysqlUser,
     mysqlPassword,
+    postgresDatabase,
+    postgresUser,
+    postgresPassword,
+    defaultTtlMinutes,
+    resourceLimitsJson,
+    shellEnabled,
+    bindAddress,
+    excludedPortsJson,
+    proxyEnabled,
+    proxyPort,
+    proxyMode,
     now
   );
   return getSettings(db);
@@ -242,14 +461,50 @@ export function getChallenge(db: Database.Database, id: string): Challenge | nul
 export function insertChallenge(db: Database.Database, challenge: Challenge): void {
   db.prepare(
     `INSERT INTO challenges (
-      id, name, runtime, runtime_version, db_type, created_at, updated_at, files_hash, storage_path
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      id,
+      name,
+      slug,
+      runtime,
+      runtime_version,
+      db_type,
+      runtime_options_json,
+      sidecars_json,
+      bot_json,
+      flag_json,
+      max_instances,
+      port_policy,
+      preferred_port,
+      last_port,
+      bind_address,
+      resource_limits_json,
+      hardening,
+      network_policy_json,
+      healthcheck_json,
+      created_at,
+      updated_at,
+      files_hash,
+      storage_path
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     challenge.id,
     challenge.name,
+    challenge.slug,
     challenge.runtime,
     challenge.runtime_version,
     challenge.db_type,
+    challenge.runtime_options_json,
+    challenge.sidecars_json,
+    challenge.bot_json,
+    challenge.flag_json,
+    challenge.max_instances,
+    challenge.port_policy,
+    challenge.preferred_port,
+    challenge.last_port,
+    challenge.bind_address,
+    challenge.resource_limits_json,
+    challenge.hardening,
+    challenge.network_policy_json,
+    challenge.healthcheck_json,
     challenge.created_at,
     challenge.updated_at,
     challenge.files_hash,
@@ -257,6 +512,73 @@ export function insertChallenge(db: Database.Database, challenge: Challenge): vo
   );
 }
 
+export function updateChallengeLimits(
+  db: Database.Database,
+  id: string,
+  limits: Pick<Challenge, "max_instances" | "port_policy" | "preferred_port" | "bind_address">
+): Challenge | null {
+  const now = new Date().toISOString();
+  db.prepare(
+    `UPDATE challenges
+     SET max_instances = ?, port_policy = ?, preferred_port = ?, bind_address = ?, updated_at = ?
+     WHERE id = ?`
+  ).run(
+    limits.max_instances,
+    limits.port_policy,
+    limits.preferred_port,
+    limits.bind_address,
+    now,
+    id
+  );
+  return getChallenge(db, id);
+}
+
+export function getChallengeBySlug(db: Database.Database, slug: string): Challenge | null {
+  const row = db.prepare("SELECT * FROM challenges WHERE slug = ?").get(slug) as
+    | Challenge
+    | undefined;
+  return row ?? null;
+}
+
+export function generateChallengeSlug(db: Database.Database, name: string, id: string): string {
+  const base = slugify(name) || `c-${id.slice(0, 8)}`;
+  const exists = db.prepare("SELECT 1 FROM challenges WHERE slug = ?");
+  let slug = base;
+  for (let suffix = 2; exists.get(slug); suffix += 1) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
+
+export function updateChallengeSlug(db: Database.Database, id: string, slug: string): void {
+  db.prepare("UPDATE challenges SET slug = ?, updated_at = ? WHERE id = ?").run(
+    slug,
+    new Date().toISOString(),
+    id
+  );
+}
+
+export function updateChallengeLastPort(db: Database.Database, id: string, port: number): void {
+  db.prepare("UPDATE challenges SET last_port = ? WHERE id = ?").run(port, id);
+}
+
+export type PinnedPort = {
+  port: number;
+  challenge_id: string;
+  challenge_name: string;
+};
+
+export function listPinnedPorts(db: Database.Database): PinnedPort[] {
+  return db
+    .prepare(
+      `SELECT preferred_port AS port, id AS challenge_id, name AS challenge_name
+       FROM challenges
+       WHERE port_policy = 'pinned' AND preferred_port IS NOT NULL
+       ORDER BY preferred_port`
+    )
+    .all() as PinnedPort[];
+}
+
 export function deleteChallenge(db: Database.Database, id: string): void {
   db.prepare("DELETE FROM challenges WHERE id = ?").run(id);
 }
@@ -277,16 +599,51 @@ export function getLatestInstanceByChallenge(
   return row ?? null;
 }
 
+export function getInstanceByOwner(
+  db: Database.Database,
+  challengeId: string,
+  owner: string
+): Instance | null {
+  const row = db
+    .prepare(
+      "SELECT * FROM instances WHERE challenge_id = ? AND owner = ? ORDER BY created_at DESC LIMIT 1"
+    )
+    .get(challengeId, owner) as Instance | undefined;
+  return row ?? null;
+}
+
+export function countRunningInstancesByChallenge(
+  db: Database.Database,
+  challengeId: string
+): number {
+  const row = db
+    .prepare(
+      "SELECT COUNT(*) AS count FROM instances WHERE challenge_id = ? AND status IN ('starting', 'running')"
+    )
+    .get(challengeId) as { count: number };
+  return row.count;
+}
+
 export function listInstances(db: Database.Database): Instance[] {
   return db.prepare("SELECT * FROM instances ORDER BY created_at DESC").all() as Instance[];
 }
 
 export function listRunningInstances(db: Database.Database): Instance[] {
   return db
-    .prepare("SELECT * FROM instances WHERE status = 'running' ORDER BY created_at DESC")
+    .prepare(
+      "SELECT * FROM instances WHERE status IN ('starting', 'running') ORDER BY created_at DESC"
+    )
     .all() as Instance[];
 }
 
+export function listExpiredInstances(db: Database.Database, now: string): Instance[] {
+  return db
+    .prepare(
+      "SELECT * FROM instances WHERE status IN ('starting', 'running') AND expires_at IS NOT NULL AND expires_at <= ?"
+    )
+    .all(now) as Instance[];
+}
+
 export function getInstance(db: Database.Database, id: string): Instance | null {
   const row = db.prepare("SELECT * FROM instances WHERE id = ?").get(id) as Instance | undefined;
   return row ?? null;
@@ -295,15 +652,28 @@ export function getInstance(db: Database.Database, id: string): Instance | null
 export function insertInstance(db: Database.Database, instance: Instance): void {
   db.prepare(
     `INSERT INTO instances (
-      id, challenge_id, status, host_port, container_port, compose_project, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      id,
+      challenge_id,
+      owner,
+      status,
+      status_reason,
+      host_port,
+      container_port,
+      compose_project,
+      expires_at,
+      created_at,
+      updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     instance.id,
     instance.challenge_id,
+    instance.owner,
     instance.status,
+    instance.status_reason,
     instance.host_port,
     instance.container_port,
     instance.compose_project,
+    instance.expires_at,
     instance.created_at,
     instance.updated_at
   );
@@ -312,10 +682,16 @@ export function insertInstance(db: Database.Database, instance: Instance): void
 export function updateInstanceStatus(
   db: Database.Database,
   id: string,
-  status: Instance["status"]
+  status: Instance["status"],
+  reason: string | null = null
 ): Instance | null {
   const now = new Date().toISOString();
-  db.prepare("UPDATE instances SET status = ?, updated_at = ? WHERE id = ?").run(status, now, id);
+  db.prepare("UPDATE instances SET status = ?, status_reason = ?, updated_at = ? WHERE id = ?").run(
+    status,
+    reason,
+    now,
+    id
+  );
   return getInstance(db, id);
 }
 
@@ -323,11 +699,23 @@ export function updateInstanceAfterStart(
   db: Database.Database,
   id: string,
   status: Instance["status"],
+  hostPort: number,
+  expiresAt: string | null
+): Instance | null {
+  const now = new Date().toISOString();
+  db.prepare(
+    "UPDATE instances SET status = ?, status_reason = NULL, host_port = ?, expires_at = ?, updated_at = ? WHERE id = ?"
+  ).run(status, hostPort, expiresAt, now, id);
+  return getInstance(db, id);
+}
+
+export function updateInstancePort(
+  db: Database.Database,
+  id: string,
   hostPort: number
 ): Instance | null {
   const now = new Date().toISOString();
-  db.prepare("UPDATE instances SET status = ?, host_port = ?, updated_at = ? WHERE id = ?").run(
-    status,
+  db.prepare("UPDATE instances SET host_port = ?, updated_at = ? WHERE id = ?").run(
     hostPort,
     now,
     id
@@ -335,10 +723,247 @@ export function updateInstanceAfterStart(
   return getInstance(db, id);
 }
 
+export function updateInstanceExpiry(
+  db: Database.Database,
+  id: string,
+  expiresAt: string | null
+): Instance | null {
+  const now = new Date().toISOString();
+  db.prepare("UPDATE instances SET expires_at = ?, updated_at = ? WHERE id = ?").run(
+    expiresAt,
+    now,
+    id
+  );
+  return getInstance(db, id);
+}
+
 export function deleteInstance(db: Database.Database, id: string): void {
-  db.prepare("DELETE FROM instances WHERE id = ?").run(id);
+  db.transaction(() => {
+    db.prepare("DELETE FROM port_leases WHERE instance_id = ?").run(id);
+    db.prepare("DELETE FROM instances WHERE id = ?").run(id);
+  })();
 }
 
 export function deleteInstancesByChallenge(db: Database.Database, challengeId: string): void {
-  db.prepare("DELETE FROM instances WHERE challenge_id = ?").run(challengeId);
+  db.transaction(() => {
+    db.prepare(
+      "DELETE FROM port_leases WHERE instance_id IN (SELECT id FROM instances WHERE challenge_id = ?)"
+    ).run(challengeId);
+    db.prepare("DELETE FROM instances WHERE challenge_id = ?").run(challengeId);
+  })();
+}
+
+export type PortLease = {
+  port: number;
+  instance_id: string;
+  created_at: string;
+  challenge_id: string | null;
+  challenge_name: string | null;
+  owner: string | null;
+  status: Instance["status"] | null;
+};
+
+const PORT_LEASE_SELECT = `SELECT l.port, l.instance_id, l.created_at, i.challenge_id,
+    c.name AS challenge_name, i.owner, i.status
+  FROM port_leases l
+  LEFT JOIN instances i ON i.id = l.instance_id
+  LEFT JOIN challenges c ON c.id = i.challenge_id`;
+
+export function listPortLeases(db: Database.Database): PortLease[] {
+  return db.prepare(`${PORT_LEASE_SELECT} ORDER BY l.port`).all() as PortLease[];
+}
+
+export function getPortLease(db: Database.Database, port: number): PortLease | null {
+  const row = db.prepare(`${PORT_LEASE_SELECT} WHERE l.port = ?`).get(port) as
+    | PortLease
+    | undefined;
+  return row ?? null;
+}
+
+function assignPortLease(db: Database.Database, instanceId: string, port: number): void {
+  db.prepare("DELETE FROM port_leases WHERE instance_id = ?").run(instanceId);
+  db.prepare("INSERT INTO port_leases (port, instance_id, created_at) VALUES (?, ?, ?)").run(
+    port,
+    instanceId,
+    new Date().toISOString()
+  );
+}
+
+export function leasePort(db: Database.Database, instanceId: string, port: number): boolean {
+  return db.transaction(() => {
+    const holder = db.prepare("SELECT instance_id FROM port_leases WHERE port = ?").get(port) as
+      | { instance_id: string }
+      | undefined;
+    if (holder && holder.instance_id !== instanceId) {
+      return false;
+    }
+    if (!holder) {
+      assignPortLease(db, instanceId, port);
+    }
+    return true;
+  })();
+}
+
+export function claimPortLease(
+  db: Database.Database,
+  instanceId: string,
+  ranges: PortRange[],
+  skip: Set<number>
+): number | null {
+  return db.transaction(() => {
+    const leased = new Set(
+      (
+        db.prepare("SELECT port FROM port_leases WHERE instance_id != ?").all(instanceId) as {
+          port: number;
+        }[]
+      ).map((row) => row.port)
+    );
+    for (const range of ranges) {
+      for (let port = range.start; port <= range.end; port += 1) {
+        if (!leased.has(port) && !skip.has(port)) {
+          assignPortLease(db, instanceId, port);
+          return port;
+        }
+      }
+    }
+    return null;
+  })();
+}
+
+export function releasePortLease(db: Database.Database, instanceId: string): void {
+  db.prepare("DELETE FROM port_leases WHERE instance_id = ?").run(instanceId);
+}
+
+export function insertJob(db: Database.Database, job: Job): void {
+  db.prepare(
+    `INSERT INTO jobs (
+      id,
+      type,
+      status,
+      phase,
+      message,
+      error,
+      challenge_id,
+      instance_id,
+      payload_json,
+      result_json,
+      created_at,
+      started_at,
+      finished_at,
+      updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    job.id,
+    job.type,
+    job.status,
+    job.phase,
+    job.message,
+    job.error,
+    job.challenge_id,
+    job.instance_id,
+    job.payload_json,
+    job.result_json,
+    job.created_at,
+    job.started_at,
+    job.finished_at,
+    job.updated_at
+  );
+}
+
+export function getJob(db: Database.Database, id: string): Job | null {
+  const row = db.prepare("SELECT * FROM jobs WHERE id = ?").get(id) as Job | undefined;
+  return row ?? null;
+}
+
+export function listJobs(
+  db: Database.Database,
+  filter: { challengeId?: string; activeOnly?: boolean; limit: number }
+): Job[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.challengeId) {
+    conditions.push("challenge_id = ?");
+    params.push(filter.challengeId);
+  }
+  if (filter.activeOnly) {
+    conditions.push("status IN ('queued','running')");
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return db
+    .prepare(`SELECT * FROM jobs ${where} ORDER BY created_at DESC LIMIT ?`)
+    .all(...params, filter.limit) as Job[];
+}
+
+export function listJobsByStatus(db: Database.Database, status: JobStatus): Job[] {
+  return db
+    .prepare("SELECT * FROM jobs WHERE status = ? ORDER BY created_at ASC")
+    .all(status) as Job[];
+}
+
+export function countActiveJobsByInstance(db: Database.Database, instanceId: string): number {
+  const row = db
+    .prepare(
+      "SELECT COUNT(*) as count FROM jobs WHERE instance_id = ? AND status IN ('queued','running')"
+    )
+    .get(instanceId) as { count: number };
+  return row.count;
+}
+
+export function updateJobProgress(
+  db: Database.Database,
+  id: string,
+  phase: JobPhase,
+  message: string | null
+): void {
+  const now = new Date().toISOString();
+  db.prepare("UPDATE jobs SET phase = ?, message = ?, updated_at = ? WHERE id = ?").run(
+    phase,
+    message,
+    now,
+    id
+  );
+}
+
+export function updateJobTarget(
+  db: Database.Database,
+  id: string,
+  challengeId: string | null,
+  instanceId: string | null
+): void {
+  const now = new Date().toISOString();
+  db.prepare(
+    "UPDATE jobs SET challenge_id = COALESCE(?, challenge_id), instance_id = COALESCE(?, instance_id), updated_at = ? WHERE id = ?"
+  ).run(challengeId, instanceId, now, id);
+}
+
+export function markJobRunning(db: Database.Database, id: string): void {
+  const now = new Date().toISOString();
+  db.prepare(
+    "UPDATE jobs SET status = 'running', started_at = ?, updated_at = ? WHERE id = ?"
+  ).run(now, now, id);
+}
+
+export function finishJob(
+  db: Database.Database,
+  id: string,
+  outcome: { status: "succeeded"; result: unknown } | { status: "failed"; error: string }
+): void {
+  const now = new Date().toISOString();
+  if (outcome.status === "succeeded") {
+    db.prepare(
+      "UPDATE jobs SET status = 'succeeded', phase = 'done', message = NULL, result_json = ?, finished_at = ?, updated_at = ? WHERE id = ?"
+    ).run(JSON.stringify(outcome.result ?? null), now, now, id);
+    return;
+  }
+  db.prepare(
+    "UPDATE jobs SET status = 'failed', error = ?, finished_at = ?, updated_at = ? WHERE id = ?"
+  ).run(outcome.error, now, now, id);
+}
+
+export function pruneJobs(db: Database.Database, keep: number): void {
+  db.prepare(
+    `DELETE FROM jobs WHERE status IN ('succeeded','failed') AND id NOT IN (
+      SELECT id FROM jobs WHERE status IN ('succeeded','failed') ORDER BY created_at DESC LIMIT ?
+    )`
+  ).run(keep);
 }
@@ -1,4 +1,8 @@
 import { spawn } from "node:child_process";
+import type { ChildProcessWithoutNullStreams } from "node:child_process";
+import { createReadStream, createWriteStream } from "node:fs";
+import pty from "node-pty";
+import type { IPty } from "node-pty";
 
 export type CommandResult = {
   stdout: string;
@@ -6,32 +10,152 @@ export type CommandResult = {
   code: number | null;
 };
 
-function runCommand(command: string, args: string[], cwd: string): Promise<CommandResult> {
+export type OutputListener = (line: string) => void;
+
+function emitLines(chunk: string, onLine?: OutputListener): void {
+  if (!onLine) {
+    return;
+  }
+  for (const line of chunk.split(/\r?\n|\r/)) {
+    const trimmed = line.trim();
+    if (trimmed) {
+      onLine(trimmed);
+    }
+  }
+}
+
+function runCommand(
+  command: string,
+  args: string[],
+  cwd: string,
+  onLine?: OutputListener
+): Promise<CommandResult> {
   return new Promise((resolve, reject) => {
     const child = spawn(command, args, { cwd });
     let stdout = "";
     let stderr = "";
     child.stdout.on("data", (data) => {
       stdout += data.toString();
+      emitLines(data.toString(), onLine);
     });
     child.stderr.on("data", (data) => {
       stderr += data.toString();
+      emitLines(data.toString(), onLine);
     });
     child.on("error", (err) => reject(err));
     child.on("close", (code) => resolve({ stdout, stderr, code }));
   });
 }
 
-export async function composeUp(composeFile: string, project: string, cwd: string): Promise<CommandResult> {
-  return await runCommand("docker", ["compose", "-f", composeFile, "-p", project, "up", "-d"], cwd);
+export async function composeUp(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  onLine?: OutputListener
+): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    ["compose", "-f", composeFile, "-p", project, "up", "-d"],
+    cwd,
+    onLine
+  );
+}
+
+export async function composeBuild(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  onLine?: OutputListener
+): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    ["compose", "-f", composeFile, "-p", project, "build"],
+    cwd,
+    onLine
+  );
+}
+
+export async function composeConfig(
+  composeFile: string,
+  project: string,
+  cwd: string
+): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    ["compose", "-f", composeFile, "-p", project, "config", "--quiet"],
+    cwd
+  );
 }
 
 export async function composeDown(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  onLine?: OutputListener
+): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    ["compose", "-f", composeFile, "-p", project, "down"],
+    cwd,
+    onLine
+  );
+}
+
+export async function composePs(
   composeFile: string,
   project: string,
   cwd: string
 ): Promise<CommandResult> {
-  return await runCommand("docker", ["compose", "-f", composeFile, "-p", project, "down"], cwd);
+  return await runCommand(
+    "docker",
+    ["compose", "-f", composeFile, "-p", project, "ps", "--all", "--format", "json"],
+    cwd
+  );
+}
+
+export async function composeDownProject(project: string, cwd: string): Promise<CommandResult> {
+  return await runCommand("docker", ["compose", "-p", project, "down", "--remove-orphans"], cwd);
+}
+
+export async function listComposeContainers(cwd: string): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    [
+      "ps",
+      "--all",
+      "--no-trunc",
+      "--filter",
+      "label=com.docker.compose.project",
+      "--format",
+      "{{json .}}",
+    ],
+    cwd
+  );
+}
+
+export async function composeRestart(
+  composeFile: string,
+  project: string,
+  cwd: string
+): Promise<CommandResult> {
+  return await runCommand("docker", ["compose", "-f", composeFile, "-p", project, "restart"], cwd);
+}
+
+export async function clearDirectoryWithContainer(dir: string): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    [
+      "run",
+      "--rm",
+      "-v",
+      `${dir}:/target`,
+      "alpine:3.20",
+      "sh",
+      "-c",
+      "rm -rf /target/* /target/.[!.]* /target/..?*",
+    ],
+    dir
+  );
 }
 
 export async function composeLogs(
@@ -46,3 +170,178 @@ export async function composeLogs(
     cwd
   );
 }
+
+export type LogStreamOptions = {
+  service: string | null;
+  since: string | null;
+  tail: number;
+};
+
+export function streamComposeLogs(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  options: LogStreamOptions
+): ChildProcessWithoutNullStreams {
+  const args = [
+    "compose",
+    "-f",
+    composeFile,
+    "-p",
+    project,
+    "logs",
+    "--follow",
+    "--no-color",
+    "--timestamps",
+    "--tail",
+    String(options.tail),
+  ];
+  if (options.since) {
+    args.push("--since", options.since);
+  }
+  if (options.service) {
+    args.push(options.service);
+  }
+  return spawn("docker", args, { cwd });
+}
+
+export async function composeServices(
+  composeFile: string,
+  project: string,
+  cwd: string
+): Promise<CommandResult> {
+  return await runCommand(
+    "docker",
+    ["compose", "-f", composeFile, "-p", project, "config", "--services"],
+    cwd
+  );
+}
+
+export function composeLogsToFile(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  service: string,
+  destPath: string
+): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const output = createWriteStream(destPath);
+    const child = spawn(
+      "docker",
+      ["compose", "-f", composeFile, "-p", project, "logs", "--no-color", "--timestamps", service],
+      { cwd }
+    );
+    child.stdout.pipe(output, { end: false });
+    child.stderr.resume();
+    child.on("error", (err) => {
+      output.destroy();
+      reject(err);
+    });
+    child.on("close", (code) => {
+      output.end(() => resolve(code));
+    });
+  });
+}
+
+export function composeExecToFile(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  service: string,
+  script: string,
+  destPath: string
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const output = createWriteStream(destPath);
+    const child = spawn(
+      "docker",
+      ["compose", "-f", composeFile, "-p", project, "exec", "-T", service, "sh", "-c", script],
+      { cwd }
+    );
+    let stderr = "";
+    child.stdout.pipe(output);
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (err) => {
+      output.destroy();
+      reject(err);
+    });
+    child.on("close", (code) => {
+      output.end(() => resolve({ stdout: "", stderr, code }));
+    });
+  });
+}
+
+export function composeExecFromFile(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  service: string,
+  script: string,
+  srcPath: string
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      "docker",
+      ["compose", "-f", composeFile, "-p", project, "exec", "-T", service, "sh", "-c", script],
+      { cwd }
+    );
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (err) => reject(err));
+    child.on("close", (code) => resolve({ stdout, stderr, code }));
+    createReadStream(srcPath)
+      .on("error", (err) => {
+        child.kill();
+        reject(err);
+      })
+      .pipe(child.stdin);
+  });
+}
+
+export type ShellOptions = {
+  service: string;
+  cols: number;
+  rows: number;
+};
+
+const SHELL_SCRIPT = "if command -v bash >/dev/null 2>&1; then exec bash; fi; exec sh";
+
+export function spawnComposeShell(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  options: ShellOptions
+): IPty {
+  return pty.spawn(
+    "docker",
+    [
+      "compose",
+      "-f",
+      composeFile,
+      "-p",
+      project,
+      "exec",
+      "-e",
+      "TERM=xterm-256color",
+      options.service,
+      "sh",
+      "-c",
+      SHELL_SCRIPT,
+    ],
+    {
+      name: "xterm-256color",
+      cols: options.cols,
+      rows: options.rows,
+      cwd,
+      env: process.env as Record<string, string>,
+    }
+  );
+}
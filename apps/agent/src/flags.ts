@@ -0,0 +1,80 @@
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import crypto from "node:crypto";
+import type { FlagConfig } from "./types.js";
+
+export const FLAG_PLACEHOLDER = "{{FLAG}}";
+export const DEFAULT_FLAG_ENV_NAME = "FLAG";
+export const DEFAULT_FLAG_FILE_PATH = "/flag.txt";
+
+const RANDOM_TOKEN = /<random (\d+) (hex|alnum)>/g;
+const ALNUM = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+const MAX_SUBSTITUTE_BYTES = 5 * 1024 * 1024;
+
+function randomString(length: number, charset: "hex" | "alnum"): string {
+  if (charset === "hex") {
+    return crypto.randomBytes(Math.ceil(length / 2)).toString("hex").slice(0, length);
+  }
+  let output = "";
+  for (let i = 0; i < length; i += 1) {
+    output += ALNUM[crypto.randomInt(ALNUM.length)];
+  }
+  return output;
+}
+
+export function assertFlagPattern(pattern: string): void {
+  for (const match of pattern.matchAll(RANDOM_TOKEN)) {
+    const length = Number(match[1]);
+    if (length < 1 || length > 128) {
+      throw new Error("flagのランダム長は1〜128で指定してください");
+    }
+  }
+}
+
+export function generateFlag(config: FlagConfig): string {
+  if (config.kind === "static") {
+    return config.value;
+  }
+  return config.value.replace(RANDOM_TOKEN, (_, length: string, charset: "hex" | "alnum") =>
+    randomString(Number(length), charset)
+  );
+}
+
+export function getFlagFilePath(workdir: string): string {
+  return path.join(workdir, "flag.txt");
+}
+
+export async function loadInstanceFlag(workdir: string, config: FlagConfig): Promise<string> {
+  const flagPath = getFlagFilePath(workdir);
+  const existing = await fs.readFile(flagPath, "utf8").catch(() => null);
+  if (existing !== null) {
+    return existing.trim();
+  }
+  const flag = generateFlag(config);
+  await fs.mkdir(workdir, { recursive: true });
+  await fs.writeFile(flagPath, `${flag}\n`, { encoding: "utf8", mode: 0o644 });
+  return flag;
+}
+
+export async function substituteFlagPlaceholders(dir: string, flag: string): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await substituteFlagPlaceholders(fullPath, flag);
+      continue;
+    }
+    if (!entry.isFile()) {
+      continue;
+    }
+    const stat = await fs.stat(fullPath);
+    if (stat.size > MAX_SUBSTITUTE_BYTES) {
+      continue;
+    }
+    const content = await fs.readFile(fullPath);
+    if (content.includes(0) || !content.includes(FLAG_PLACEHOLDER)) {
+      continue;
+    }
+    await fs.writeFile(fullPath, content.toString("utf8").split(FLAG_PLACEHOLDER).join(flag));
+  }
+}
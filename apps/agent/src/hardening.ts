@@ -0,0 +1,211 @@
+import { promises as fs } from "node:fs";
+import YAML from "yaml";
+import type { HardeningProfile, Runtime } from "./types.js";
+import { composeConfig } from "./docker.js";
+
+export const HARDENING_PROFILES: HardeningProfile[] = ["strict", "default", "off"];
+export const DEFAULT_HARDENING_PROFILE: HardeningProfile = "default";
+
+const FORBIDDEN_HOST_MODES = ["network_mode", "pid", "ipc", "uts", "userns_mode", "cgroup"];
+const FORBIDDEN_CAPS = ["ALL", "SYS_ADMIN", "SYS_MODULE", "SYS_PTRACE", "SYS_RAWIO", "NET_ADMIN"];
+const NO_NEW_PRIVILEGES = "no-new-privileges:true";
+const TMPFS_OPTIONS = "rw,exec,nosuid,nodev,mode=1777";
+
+type HardeningSpec = {
+  capAdd: string[];
+  tmpfs: string[];
+  user: string | null;
+  env: Record<string, string>;
+};
+
+const ROOT_DROPPING_CAPS = [
+  "CHOWN",
+  "DAC_OVERRIDE",
+  "FOWNER",
+  "SETUID",
+  "SETGID",
+  "NET_BIND_SERVICE",
+  "KILL",
+];
+const ROOT_CAPS = ["CHOWN", "DAC_OVERRIDE", "FOWNER", "SETUID", "SETGID"];
+
+export function isHardeningProfile(value: string): value is HardeningProfile {
+  return (HARDENING_PROFILES as string[]).includes(value);
+}
+
+function getHardeningSpec(runtime: Runtime, profile: HardeningProfile): HardeningSpec | null {
+  if (profile === "off") {
+    return null;
+  }
+  const strict = profile === "strict";
+  if (runtime === "php") {
+    return {
+      capAdd: ROOT_DROPPING_CAPS,
+      tmpfs: strict ? ["/tmp", "/var/run/apache2", "/var/lock/apache2"] : [],
+      user: null,
+      env: {},
+    };
+  }
+  if (runtime === "flask") {
+    if (!strict) {
+      return { capAdd: ROOT_CAPS, tmpfs: [], user: null, env: {} };
+    }
+    return {
+      capAdd: [],
+      tmpfs: ["/tmp"],
+      user: "65534:65534",
+      env: { HOME: "/tmp" },
+    };
+  }
+  if (runtime === "node") {
+    if (!strict) {
+      return { capAdd: ROOT_CAPS, tmpfs: [], user: null, env: {} };
+    }
+    return {
+      capAdd: [],
+      tmpfs: ["/tmp"],
+      user: "node",
+      env: { HOME: "/tmp" },
+    };
+  }
+  return {
+    capAdd: ROOT_DROPPING_CAPS,
+    tmpfs: strict ? ["/tmp"] : [],
+    user: null,
+    env: {},
+  };
+}
+
+function tmpfsEntry(target: string, user: string | null): string {
+  const owner = user === "node" ? ",uid=1000,gid=1000" : "";
+  return `${target}:${TMPFS_OPTIONS}${owner}`;
+}
+
+export function buildHardeningLines(runtime: Runtime, profile: HardeningProfile): string[] {
+  const spec = getHardeningSpec(runtime, profile);
+  if (!spec) {
+    return [];
+  }
+  const lines = ["    cap_drop:", "      - ALL"];
+  if (spec.capAdd.length > 0) {
+    lines.push("    cap_add:", ...spec.capAdd.map((cap) => `      - ${cap}`));
+  }
+  lines.push("    security_opt:", `      - "${NO_NEW_PRIVILEGES}"`);
+  if (profile === "strict") {
+    lines.push("    read_only: true");
+    lines.push(
+      "    tmpfs:",
+      ...spec.tmpfs.map((target) => `      - "${tmpfsEntry(target, spec.user)}"`)
+    );
+  }
+  if (spec.user) {
+    lines.push(`    user: "${spec.user}"`);
+  }
+  return lines;
+}
+
+export function buildHardeningEnv(runtime: Runtime, profile: HardeningProfile): string[] {
+  const spec = getHardeningSpec(runtime, profile);
+  return Object.entries(spec?.env ?? {}).map(([key, value]) => `      ${key}: "${value}"`);
+}
+
+export function applyHardening(
+  service: Record<string, unknown>,
+  profile: HardeningProfile
+): Record<string, unknown> {
+  const spec = getHardeningSpec("custom", profile);
+  if (!spec) {
+    return service;
+  }
+  const next = { ...service };
+  const capAdd = Array.isArray(next.cap_add) ? next.cap_add.map(String) : [];
+  next.cap_drop = ["ALL"];
+  next.cap_add = [...new Set([...spec.capAdd, ...capAdd])];
+  const securityOpt = Array.isArray(next.security_opt) ? next.security_opt.map(String) : [];
+  if (!securityOpt.some((opt) => opt.startsWith("no-new-privileges"))) {
+    securityOpt.push(NO_NEW_PRIVILEGES);
+  }
+  next.security_opt = securityOpt;
+  if (profile === "strict") {
+    next.read_only = true;
+    const tmpfs = Array.isArray(next.tmpfs)
+      ? next.tmpfs.map(String)
+      : typeof next.tmpfs === "string"
+        ? [next.tmpfs]
+        : [];
+    next.tmpfs = [...tmpfs, ...spec.tmpfs.map((target) => tmpfsEntry(target, null))];
+  }
+  return next;
+}
+
+export function assertServiceSafe(service: string, definition: Record<string, unknown>): void {
+  if (definition.privileged === true || definition.privileged === "true") {
+    throw new Error(`${service}: privilegedは許可されていません`);
+  }
+  for (const key of FORBIDDEN_HOST_MODES) {
+    const value = definition[key];
+    if (typeof value === "string" && (value === "host" || value.startsWith("container:"))) {
+      throw new Error(`${service}: ${key}: ${value} は許可されていません`);
+    }
+  }
+  if (typeof definition.devices !== "undefined") {
+    throw new Error(`${service}: devicesは許可されていません`);
+  }
+  const capAdd = Array.isArray(definition.cap_add) ? definition.cap_add : [];
+  for (const cap of capAdd) {
+    const name = String(cap).toUpperCase().replace(/^CAP_/, "");
+    if (FORBIDDEN_CAPS.includes(name)) {
+      throw new Error(`${service}: cap_add ${name} は許可されていません`);
+    }
+  }
+  const securityOpt = Array.isArray(definition.security_opt) ? definition.security_opt : [];
+  if (securityOpt.some((opt) => String(opt).includes("unconfined"))) {
+    throw new Error(`${service}: security_optのunconfinedは許可されていません`);
+  }
+}
+
+function assertServiceHardened(
+  service: string,
+  definition: Record<string, unknown>,
+  profile: HardeningProfile
+): void {
+  const capDrop = Array.isArray(definition.cap_drop) ? definition.cap_drop.map(String) : [];
+  if (!capDrop.includes("ALL")) {
+    throw new Error(`${service}: cap_drop ALL が設定されていません`);
+  }
+  const securityOpt = Array.isArray(definition.security_opt)
+    ? definition.security_opt.map(String)
+    : [];
+  if (!securityOpt.includes(NO_NEW_PRIVILEGES)) {
+    throw new Error(`${service}: no-new-privileges が設定されていません`);
+  }
+  if (profile === "strict" && definition.read_only !== true) {
+    throw new Error(`${service}: read_only が設定されていません`);
+  }
+}
+
+export async function validateRenderedCompose(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  profile: HardeningProfile,
+  hardenAllServices: boolean
+): Promise<void> {
+  const doc = YAML.parse(await fs.readFile(composeFile, "utf8")) as {
+    services?: Record<string, Record<string, unknown>>;
+  } | null;
+  const services = doc?.services ?? {};
+  if (!services.app && !hardenAllServices) {
+    throw new Error("composeファイルにappサービスがありません");
+  }
+  for (const [service, definition] of Object.entries(services)) {
+    assertServiceSafe(service, definition ?? {});
+    if (profile !== "off" && (hardenAllServices || service === "app")) {
+      assertServiceHardened(service, definition ?? {}, profile);
+    }
+  }
+  const result = await composeConfig(composeFile, project, cwd);
+  if (result.code !== 0) {
+    throw new Error(result.stderr || "composeファイルの検証に失敗しました");
+  }
+}
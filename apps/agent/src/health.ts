@@ -0,0 +1,186 @@
+import type { HealthCheck } from "./types.js";
+import { composePs } from "./docker.js";
+import { getProbeHost } from "./ports.js";
+
+export const DEFAULT_HEALTHCHECK: HealthCheck = {
+  path: "/",
+  expected_status: null,
+  timeout_seconds: 180,
+};
+
+const POLL_INTERVAL_MS = 2000;
+const PROBE_TIMEOUT_MS = 3000;
+
+type ContainerState = {
+  Service?: string;
+  State?: string;
+  Health?: string;
+  ExitCode?: number;
+};
+
+export type ReadinessTarget = {
+  composeFile: string;
+  project: string;
+  cwd: string;
+  hostPort: number;
+  bindAddress: string;
+  healthcheck: HealthCheck;
+  isCancelled: () => boolean;
+};
+
+export type ReadinessResult = { ready: true } | { ready: false; reason: string };
+
+export function parseHealthCheck(input: unknown): HealthCheck {
+  if (typeof input === "undefined" || input === null) {
+    return DEFAULT_HEALTHCHECK;
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("healthcheckが不正です");
+  }
+  const raw = input as Record<string, unknown>;
+  const probePath = String(raw.path ?? "").trim() || DEFAULT_HEALTHCHECK.path;
+  if (!probePath.startsWith("/") || probePath.length > 200 || /[\s\x00-\x1f]/.test(probePath)) {
+    throw new Error("healthcheck.pathが不正です");
+  }
+  let expectedStatus: number | null = null;
+  if (raw.expected_status !== undefined && raw.expected_status !== null && raw.expected_status !== "") {
+    expectedStatus = Number(raw.expected_status);
+    if (!Number.isInteger(expectedStatus) || expectedStatus < 100 || expectedStatus > 599) {
+      throw new Error("healthcheck.expected_statusは100〜599で指定してください");
+    }
+  }
+  const timeoutSeconds =
+    raw.timeout_seconds === undefined || raw.timeout_seconds === null || raw.timeout_seconds === ""
+      ? DEFAULT_HEALTHCHECK.timeout_seconds
+      : Number(raw.timeout_seconds);
+  if (!Number.isInteger(timeoutSeconds) || timeoutSeconds < 5 || timeoutSeconds > 1800) {
+    throw new Error("healthcheck.timeout_secondsは5〜1800で指定してください");
+  }
+  return { path: probePath, expected_status: expectedStatus, timeout_seconds: timeoutSeconds };
+}
+
+function parseContainerStates(stdout: string): ContainerState[] {
+  const trimmed = stdout.trim();
+  if (!trimmed) {
+    return [];
+  }
+  if (trimmed.startsWith("[")) {
+    return JSON.parse(trimmed) as ContainerState[];
+  }
+  return trimmed
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as ContainerState);
+}
+
+async function checkContainers(target: ReadinessTarget): Promise<{
+  failed: string | null;
+  pending: string | null;
+}> {
+  const result = await composePs(target.composeFile, target.project, target.cwd);
+  if (result.code !== 0) {
+    return { failed: null, pending: result.stderr.trim() || "コンテナの状態を取得できません" };
+  }
+  const containers = parseContainerStates(result.stdout);
+  if (containers.length === 0) {
+    return { failed: null, pending: "コンテナがありません" };
+  }
+  let pending: string | null = null;
+  for (const container of containers) {
+    const service = container.Service ?? "unknown";
+    if (container.State === "dead" || (container.State === "exited" && container.ExitCode !== 0)) {
+      return { failed: `${service}が終了しました (exit code ${container.ExitCode ?? "?"})`, pending };
+    }
+    if (container.Health === "unhealthy") {
+      return { failed: `${service}のヘルスチェックが失敗しました`, pending };
+    }
+    if (container.State !== "running" && container.State !== "exited") {
+      pending = `${service}: ${container.State ?? "unknown"}`;
+    } else if (container.Health === "starting") {
+      pending = `${service}のヘルスチェック待ちです`;
+    }
+  }
+  return { failed: null, pending };
+}
+
+async function probeHttp(
+  host: string,
+  hostPort: number,
+  healthcheck: HealthCheck
+): Promise<string | null> {
+  try {
+    const response = await fetch(`http://${host}:${hostPort}${healthcheck.path}`, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    const ok =
+      healthcheck.expected_status === null
+        ? response.status < 500
+        : response.status === healthcheck.expected_status;
+    return ok ? null : `${healthcheck.path} がHTTP ${response.status}を返しました`;
+  } catch (error) {
+    return `${healthcheck.path} に接続できません (${(error as Error).message})`;
+  }
+}
+
+export async function waitForReady(target: ReadinessTarget): Promise<ReadinessResult> {
+  const deadline = Date.now() + target.healthcheck.timeout_seconds * 1000;
+  let lastReason = "起動を確認できませんでした";
+  while (Date.now() < deadline) {
+    if (target.isCancelled()) {
+      return { ready: false, reason: "キャンセルされました" };
+    }
+    const containers = await checkContainers(target);
+    if (containers.failed) {
+      return { ready: false, reason: containers.failed };
+    }
+    if (containers.pending) {
+      lastReason = containers.pending;
+    } else {
+      const probeFailure = await probeHttp(
+        getProbeHost(target.bindAddress),
+        target.hostPort,
+        target.healthcheck
+      );
+      if (!probeFailure) {
+        return { ready: true };
+      }
+      lastReason = probeFailure;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  return {
+    ready: false,
+    reason: `${target.healthcheck.timeout_seconds}秒以内に起動しませんでした: ${lastReason}`,
+  };
+}
+
+export async function waitForServiceHealthy(
+  composeFile: string,
+  project: string,
+  cwd: string,
+  service: string,
+  timeoutSeconds: number
+): Promise<void> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  while (Date.now() < deadline) {
+    const result = await composePs(composeFile, project, cwd);
+    if (result.code === 0) {
+      const container = parseContainerStates(result.stdout).find(
+        (item) => item.Service === service
+      );
+      if (container?.State === "running" && container.Health !== "starting") {
+        if (container.Health === "unhealthy") {
+          throw new Error(`${service}のヘルスチェックが失敗しました`);
+        }
+        return;
+      }
+      if (container && container.State !== "running" && container.State !== "created") {
+        throw new Error(`${service}が起動していません (${container.State})`);
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  throw new Error(`${service}が${timeoutSeconds}秒以内に起動しませんでした`);
+}
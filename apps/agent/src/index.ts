@@ -2,9 +2,11 @@ import Fastify from "fastify";
 import type { FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
 import multipart from "@fastify/multipart";
+import websocket from "@fastify/websocket";
 import path from "node:path";
 import { promises as fs } from "node:fs";
 import crypto from "node:crypto";
+import net from "node:net";
 import { ensureBaseDirs, getPaths, resolveChallengeDir, resolveWorkdir } from "./storage.js";
 import {
   getSettings,
@@ -13,26 +15,142 @@ import {
   insertInstance,
   listChallenges,
   listInstancesByChallenge,
-  listRunningInstances,
-  getLatestInstanceByChallenge,
+  getInstanceByOwner,
+  countRunningInstancesByChallenge,
+  updateChallengeLimits,
+  updateChallengeLastPort,
+  listPinnedPorts,
+  getPortLease,
+  listExpiredInstances,
+  updateInstanceExpiry,
   updateInstanceStatus,
   updateInstanceAfterStart,
   getChallenge,
+  getChallengeBySlug,
+  generateChallengeSlug,
+  updateChallengeSlug,
   getInstance,
   updateSettings,
   deleteInstance,
   deleteChallenge,
   deleteInstancesByChallenge,
+  countActiveJobsByInstance,
+  getJob,
+  listJobs,
+  leasePort,
+  listPortLeases,
+  releasePortLease,
 } from "./db.js";
-import type { DbType, Manifest, PortRange, Runtime, Settings, Instance } from "./types.js";
+import type { PortLease } from "./db.js";
+import type {
+  BotConfig,
+  Challenge,
+  DbType,
+  FlagConfig,
+  FlagDelivery,
+  HardeningProfile,
+  HealthCheck,
+  NetworkPolicy,
+  Manifest,
+  PortPolicy,
+  PortRange,
+  ProxyMode,
+  ResourceLimits,
+  Runtime,
+  RuntimeOptions,
+  Settings,
+  SidecarType,
+  Instance,
+  Job,
+  JobType,
+} from "./types.js";
 import { extractZipSafe, saveStreamToFile } from "./zip.js";
 import { hashDirectory } from "./hash.js";
-import { findAvailablePort, isPortAvailable } from "./ports.js";
-import { writeComposeFiles } from "./templates.js";
-import { composeDown, composeLogs, composeUp } from "./docker.js";
-import { assertDocrootIndex, normalizeExtractedPack } from "./pack.js";
+import { isValidSlug } from "./slug.js";
+import { isProxyMode, parseBaseHost, startProxyServer } from "./proxy.js";
+import type { ProxyLookup, ProxyServer } from "./proxy.js";
+import {
+  allocatePort,
+  formatHostBinding,
+  getConnectHost,
+  getPortSummary,
+  isBindAddressUsable,
+  isPortAvailable,
+  isPortInRanges,
+  isPortPolicy,
+} from "./ports.js";
+import {
+  DEFAULT_NODE_ENTRY,
+  DEFAULT_PYTHON_ENTRYPOINT,
+  DEFAULT_PYTHON_SERVER,
+  DEFAULT_PYTHON_WORKERS,
+  writeComposeFiles,
+} from "./templates.js";
+import { inspectCustomPack } from "./custom.js";
+import { loadMysqlSecrets, loadPostgresSecrets } from "./secrets.js";
+import { isSidecarType } from "./sidecars.js";
+import { mergeResourceLimits, parseResourceLimits } from "./limits.js";
+import { parseNetworkPolicy } from "./network.js";
+import { parseHealthCheck, waitForReady, waitForServiceHealthy } from "./health.js";
+import { reconcileInstances } from "./reconcile.js";
+import { archiveInstanceLogs, listLogSessions, readLogSession } from "./logs.js";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  getSnapshot,
+  listSnapshots,
+  parseSnapshotName,
+  restoreSnapshotDatabase,
+  restoreSnapshotPack,
+} from "./snapshots.js";
+import type { ReconcileReport } from "./reconcile.js";
+import { createJob, resumeJobs, scheduleJob } from "./jobs.js";
+import type { JobContext, JobRuntime, JobTarget } from "./jobs.js";
+import {
+  DEFAULT_HARDENING_PROFILE,
+  isHardeningProfile,
+  validateRenderedCompose,
+} from "./hardening.js";
+import {
+  DEFAULT_FLAG_ENV_NAME,
+  DEFAULT_FLAG_FILE_PATH,
+  FLAG_PLACEHOLDER,
+  assertFlagPattern,
+  getFlagFilePath,
+  loadInstanceFlag,
+  substituteFlagPlaceholders,
+} from "./flags.js";
+import {
+  clearDirectoryWithContainer,
+  composeBuild,
+  composeDown,
+  composeLogs,
+  composeRestart,
+  composeServices,
+  composeUp,
+  spawnComposeShell,
+  streamComposeLogs,
+} from "./docker.js";
+import type { CommandResult, LogStreamOptions, ShellOptions } from "./docker.js";
+import type { IPty } from "node-pty";
+import {
+  assertDocrootIndex,
+  assertNodeEntry,
+  assertPythonModule,
+  normalizeExtractedPack,
+} from "./pack.js";
 import archiver from "archiver";
 
+const MAX_TTL_MINUTES = 7 * 24 * 60;
+const DEFAULT_EXTEND_MINUTES = 30;
+const REAPER_INTERVAL_MS = 30 * 1000;
+const RECONCILE_INTERVAL_MS = 60 * 1000;
+const MAX_LOG_TAIL = 5000;
+const LOG_HEARTBEAT_MS = 15 * 1000;
+const DB_READY_TIMEOUT_SECONDS = 180;
+const MAX_SHELL_MESSAGE_BYTES = 1024 * 1024;
+const MAX_JOB_LIST = 200;
+
 const paths = getPaths();
 await ensureBaseDirs(paths);
 
@@ -40,6 +158,11 @@ const { db } = initDb(paths.dbPath);
 
 const server = Fastify({ logger: true });
 
+const busyProjects = new Set<string>();
+const readinessChecks = new Map<string, Promise<void>>();
+const shellSessions = new Set<IPty>();
+let proxyServer: ProxyServer | null = null;
+
 const defaultOrigins = ["http://localhost:3000", "http://127.0.0.1:3000"];
 const allowedOrigins = new Set(
   (process.env.WEB_ORIGIN ? process.env.WEB_ORIGIN.split(",") : defaultOrigins)
@@ -61,21 +184,475 @@ await server.register(multipart, {
   attachFieldsToBody: false,
 });
 
+await server.register(websocket, {
+  options: { maxPayload: MAX_SHELL_MESSAGE_BYTES },
+});
+
 function assertRuntime(value: string): asserts value is Runtime {
-  if (value !== "php" && value !== "flask") {
+  if (value !== "php" && value !== "flask" && value !== "node" && value !== "custom") {
     throw new Error("runtimeが不正です");
   }
 }
 
 function assertDbType(value: string): asserts value is DbType {
-  if (value !== "none" && value !== "mysql") {
+  if (value !== "none" && value !== "mysql" && value !== "postgres") {
     throw new Error("db_typeが不正です");
   }
 }
 
-function parsePortRanges(input: unknown): PortRange[] {
+function parseNameList(input: unknown, label: string): string[] {
+  const items = Array.isArray(input)
+    ? input.map((item) => String(item))
+    : String(input ?? "").split(",");
+  const names = items.map((item) => item.trim().toLowerCase()).filter(Boolean);
+  for (const name of names) {
+    if (!/^[a-z0-9_]+$/.test(name)) {
+      throw new Error(`${label}が不正です: ${name}`);
+    }
+  }
+  return [...new Set(names)];
+}
+
+function parseRuntimeOptions(runtime: Runtime, input: unknown): RuntimeOptions {
+  if (typeof input !== "undefined" && (!input || typeof input !== "object")) {
+    throw new Error("runtime_optionsが不正です");
+  }
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const options: RuntimeOptions = {};
+  if (runtime === "node") {
+    const entry = String(raw.node_entry ?? "").trim() || DEFAULT_NODE_ENTRY;
+    if (!/^[A-Za-z0-9._/-]+$/.test(entry) || entry.startsWith("/") || entry.split("/").includes("..")) {
+      throw new Error("node_entryが不正です");
+    }
+    options.node_entry = entry;
+  }
+  if (runtime === "flask") {
+    const entrypoint = String(raw.python_entrypoint ?? "").trim() || DEFAULT_PYTHON_ENTRYPOINT;
+    if (!/^[A-Za-z_][A-Za-z0-9_.]*:[A-Za-z_][A-Za-z0-9_]*(\(\))?$/.test(entrypoint)) {
+      throw new Error("python_entrypointはmodule:callable形式で指定してください");
+    }
+    const server = String(raw.python_server ?? "").trim() || DEFAULT_PYTHON_SERVER;
+    if (server !== "gunicorn" && server !== "uvicorn") {
+      throw new Error("python_serverが不正です");
+    }
+    const workers =
+      raw.python_workers === undefined || raw.python_workers === ""
+        ? DEFAULT_PYTHON_WORKERS
+        : Number(raw.python_workers);
+    if (!Number.isInteger(workers) || workers < 1 || workers > 32) {
+      throw new Error("python_workersは1〜32で指定してください");
+    }
+    const args = String(raw.python_args ?? "").trim();
+    if (!/^[A-Za-z0-9_=.,:/ -]*$/.test(args)) {
+      throw new Error("python_argsに使用できない文字が含まれています");
+    }
+    options.python_entrypoint = entrypoint;
+    options.python_server = server;
+    options.python_workers = workers;
+    if (args) {
+      options.python_args = args;
+    }
+  }
+  if (runtime === "php") {
+    const extensions = parseNameList(raw.php_extensions, "php_extensions");
+    const modules = parseNameList(raw.php_apache_modules, "php_apache_modules");
+    const ini = typeof raw.php_ini === "string" ? raw.php_ini.trim() : "";
+    if (ini.length > 16 * 1024) {
+      throw new Error("php_iniが大きすぎます");
+    }
+    if (extensions.length > 0) {
+      options.php_extensions = extensions;
+    }
+    if (modules.length > 0) {
+      options.php_apache_modules = modules;
+    }
+    if (ini) {
+      options.php_ini = `${ini}\n`;
+    }
+  }
+  const rawPort = raw.custom_container_port;
+  if (runtime === "custom" && typeof rawPort !== "undefined" && rawPort !== "" && rawPort !== null) {
+    const port = Number(rawPort);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error("custom_container_portが不正です");
+    }
+    options.custom_container_port = port;
+  }
+  return options;
+}
+
+function parseSidecars(input: unknown): SidecarType[] {
+  if (typeof input === "undefined" || input === null) {
+    return [];
+  }
+  if (!Array.isArray(input)) {
+    throw new Error("sidecarsが不正です");
+  }
+  const sidecars: SidecarType[] = [];
+  for (const item of input) {
+    const value = String(item).trim();
+    if (!isSidecarType(value)) {
+      throw new Error(`sidecarsが不正です: ${value}`);
+    }
+    if (!sidecars.includes(value)) {
+      sidecars.push(value);
+    }
+  }
+  return sidecars;
+}
+
+function parseBotConfig(input: unknown): BotConfig | null {
+  if (typeof input === "undefined" || input === null || input === false) {
+    return null;
+  }
+  if (typeof input !== "object") {
+    throw new Error("botが不正です");
+  }
+  const raw = input as Record<string, unknown>;
+  const cookieName = String(raw.cookie_name ?? "").trim() || "flag";
+  const cookieValue = String(raw.cookie_value ?? "");
+  const cookieDomain = String(raw.cookie_domain ?? "").trim() || "app";
+  const visitTimeout =
+    raw.visit_timeout_ms === undefined || raw.visit_timeout_ms === ""
+      ? 10000
+      : Number(raw.visit_timeout_ms);
+  if (!/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/.test(cookieName)) {
+    throw new Error("bot.cookie_nameが不正です");
+  }
+  if (cookieValue.length > 4096 || /[;\r\n]/.test(cookieValue)) {
+    throw new Error("bot.cookie_valueが不正です");
+  }
+  if (!/^[A-Za-z0-9.-]+$/.test(cookieDomain)) {
+    throw new Error("bot.cookie_domainが不正です");
+  }
+  if (!Number.isInteger(visitTimeout) || visitTimeout < 1000 || visitTimeout > 60000) {
+    throw new Error("bot.visit_timeout_msは1000〜60000で指定してください");
+  }
+  return {
+    cookie_name: cookieName,
+    cookie_value: cookieValue,
+    cookie_domain: cookieDomain,
+    visit_timeout_ms: visitTimeout,
+  };
+}
+
+function parseFlagConfig(input: unknown): FlagConfig | null {
+  if (typeof input === "undefined" || input === null || input === false) {
+    return null;
+  }
+  if (typeof input !== "object") {
+    throw new Error("flagが不正です");
+  }
+  const raw = input as Record<string, unknown>;
+  const kind = String(raw.kind ?? "static").trim();
+  if (kind !== "static" && kind !== "pattern") {
+    throw new Error("flag.kindが不正です");
+  }
+  const value = String(raw.value ?? "").trim();
+  if (!value || value.length > 512 || /[\r\n]/.test(value)) {
+    throw new Error("flag.valueが不正です");
+  }
+  if (kind === "pattern") {
+    assertFlagPattern(value);
+  }
+  const deliveryInput = Array.isArray(raw.delivery) ? raw.delivery : ["env"];
+  const delivery: FlagDelivery[] = [];
+  for (const item of deliveryInput) {
+    const method = String(item).trim();
+    if (method !== "env" && method !== "file" && method !== "placeholder") {
+      throw new Error(`flag.deliveryが不正です: ${method}`);
+    }
+    if (!delivery.includes(method)) {
+      delivery.push(method);
+    }
+  }
+  if (delivery.length === 0) {
+    throw new Error("flag.deliveryを1つ以上指定してください");
+  }
+  const envName = String(raw.env_name ?? "").trim() || DEFAULT_FLAG_ENV_NAME;
+  if (!/^[A-Z_][A-Z0-9_]*$/.test(envName)) {
+    throw new Error("flag.env_nameが不正です");
+  }
+  const filePath = String(raw.file_path ?? "").trim() || DEFAULT_FLAG_FILE_PATH;
+  if (!/^\/[A-Za-z0-9._/-]+$/.test(filePath) || filePath.split("/").includes("..")) {
+    throw new Error("flag.file_pathが不正です");
+  }
+  return { kind, value, delivery, env_name: envName, file_path: filePath };
+}
+
+function parseMaxInstances(input: unknown): number {
+  if (typeof input === "undefined" || input === null || input === "") {
+    return 1;
+  }
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 1 || value > 100) {
+    throw new Error("max_instancesは1〜100で指定してください");
+  }
+  return value;
+}
+
+function resolveBindAddress(challenge: Challenge, settings: Settings): string {
+  return challenge.bind_address ?? settings.bind_address;
+}
+
+async function parseBindAddress(input: unknown): Promise<string> {
+  const address = String(input ?? "").trim();
+  if (!address) {
+    return "";
+  }
+  if (net.isIP(address) === 0) {
+    throw new Error("bind_addressはIPアドレスで指定してください");
+  }
+  if (!(await isBindAddressUsable(address))) {
+    throw new Error(`bind_address ${address} はこのホストで使用できません`);
+  }
+  return address;
+}
+
+function parseSlug(input: unknown, challengeId: string): string {
+  const slug = String(input ?? "").trim();
+  if (!isValidSlug(slug)) {
+    throw new Error("slugは英小文字・数字・ハイフンで指定してください");
+  }
+  const existing = getChallengeBySlug(db, slug);
+  if (existing && existing.id !== challengeId) {
+    throw new Error(`slug ${slug} は「${existing.name}」で使われています`);
+  }
+  return slug;
+}
+
+function parseProxyPort(input: unknown): number {
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 1 || value > 65535) {
+    throw new Error("proxy_portは1〜65535で指定してください");
+  }
+  if (value === port) {
+    throw new Error("proxy_portにAgentのポートは指定できません");
+  }
+  return value;
+}
+
+function resolveProxyTarget(key: string): ProxyLookup {
+  const [slug, instancePrefix] = key.split("--");
+  const challenge = getChallengeBySlug(db, slug);
+  if (!challenge) {
+    return { status: 404, error: `問題「${slug}」が見つかりません` };
+  }
+  const instances = listInstancesByChallenge(db, challenge.id);
+  let instance: Instance | undefined;
+  if (instancePrefix) {
+    instance = instances.find((item) => item.id.startsWith(instancePrefix));
+  } else {
+    const active = instances.filter(
+      (item) => item.status === "running" || item.status === "starting"
+    );
+    if (active.length > 1) {
+      return {
+        status: 409,
+        error: `複数のインスタンスが起動中です。${slug}--<インスタンスID先頭8文字> で指定してください`,
+      };
+    }
+    instance = active[0] ?? instances[0];
+  }
+  if (!instance) {
+    return { status: 404, error: "インスタンスが見つかりません" };
+  }
+  if (instance.status !== "running") {
+    return { status: 503, error: "インスタンスは起動していません" };
+  }
+  return {
+    host: getConnectHost(resolveBindAddress(challenge, getSettings(db))),
+    port: instance.host_port,
+  };
+}
+
+async function configureProxy(settings: Settings): Promise<void> {
+  const current = proxyServer;
+  proxyServer = null;
+  await current?.close();
+  if (settings.proxy_enabled !== 1) {
+    return;
+  }
+  proxyServer = await startProxyServer({
+    port: settings.proxy_port,
+    bindAddress: settings.bind_address,
+    mode: settings.proxy_mode,
+    getBaseHost: () => parseBaseHost(getSettings(db).host ?? ""),
+    lookup: resolveProxyTarget,
+  });
+}
+
+function describePortHolder(lease: PortLease): string {
+  return `「${lease.challenge_name ?? "不明"}」(${lease.owner || "Ownerなし"})のインスタンス`;
+}
+
+function parsePortOptions(
+  policyInput: unknown,
+  portInput: unknown,
+  maxInstances: number,
+  challengeId: string | null
+): Pick<Challenge, "port_policy" | "preferred_port"> {
+  const policy =
+    typeof policyInput === "undefined" || policyInput === null || policyInput === ""
+      ? "auto"
+      : String(policyInput).trim();
+  if (!isPortPolicy(policy)) {
+    throw new Error("port_policyが不正です");
+  }
+  let preferredPort: number | null = null;
+  if (typeof portInput !== "undefined" && portInput !== null && portInput !== "") {
+    const settings = getSettings(db);
+    const ranges = JSON.parse(settings.port_ranges_json) as PortRange[];
+    preferredPort = Number(portInput);
+    if (!Number.isInteger(preferredPort) || !isPortInRanges(preferredPort, ranges)) {
+      const label = ranges.map((range) => `${range.start}-${range.end}`).join(", ");
+      throw new Error(`preferred_portはポート範囲(${label})内で指定してください`);
+    }
+    if (isPortInRanges(preferredPort, JSON.parse(settings.excluded_ports_json) as PortRange[])) {
+      throw new Error(`preferred_port ${preferredPort} は除外ポートに含まれています`);
+    }
+  }
+  if (policy === "pinned") {
+    if (preferredPort === null) {
+      throw new Error("ポートを固定するにはpreferred_portを指定してください");
+    }
+    if (maxInstances !== 1) {
+      throw new Error("ポートを固定する場合、max_instancesは1にしてください");
+    }
+    const pinned = listPinnedPorts(db).find(
+      (item) => item.port === preferredPort && item.challenge_id !== challengeId
+    );
+    if (pinned) {
+      throw new Error(`ポート${preferredPort}は「${pinned.challenge_name}」に固定されています`);
+    }
+    const lease = getPortLease(db, preferredPort);
+    if (lease && lease.challenge_id !== challengeId) {
+      throw new Error(`ポート${preferredPort}は${describePortHolder(lease)}が使用中です`);
+    }
+  }
+  return { port_policy: policy, preferred_port: preferredPort };
+}
+
+function parseTtlMinutes(input: unknown): number {
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 0 || value > MAX_TTL_MINUTES) {
+    throw new Error(`TTLは0〜${MAX_TTL_MINUTES}分で指定してください`);
+  }
+  return value;
+}
+
+function computeExpiresAt(ttlMinutes: number, from = Date.now()): string | null {
+  if (ttlMinutes === 0) {
+    return null;
+  }
+  return new Date(from + ttlMinutes * 60 * 1000).toISOString();
+}
+
+function parseHardening(input: unknown): HardeningProfile {
+  if (typeof input === "undefined" || input === null || input === "") {
+    return DEFAULT_HARDENING_PROFILE;
+  }
+  const profile = String(input).trim();
+  if (!isHardeningProfile(profile)) {
+    throw new Error("hardeningが不正です");
+  }
+  return profile;
+}
+
+function parseOwner(input: unknown): string {
+  const owner = String(input ?? "").trim();
+  if (owner.length > 64 || /[\u0000-\u001f\u007f]/.test(owner)) {
+    throw new Error("ownerが不正です");
+  }
+  return owner;
+}
+
+function parseLogStreamOptions(query: {
+  service?: string;
+  since?: string;
+  tail?: string;
+}): LogStreamOptions {
+  const service = String(query.service ?? "").trim();
+  if (service && !/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(service)) {
+    throw new Error("serviceが不正です");
+  }
+  const since = String(query.since ?? "").trim();
+  if (since && !/^\d+[smh]$/.test(since) && Number.isNaN(Date.parse(since))) {
+    throw new Error("sinceが不正です");
+  }
+  const tail = query.tail === undefined || query.tail === "" ? 200 : Number(query.tail);
+  if (!Number.isInteger(tail) || tail < 0 || tail > MAX_LOG_TAIL) {
+    throw new Error(`tailは0〜${MAX_LOG_TAIL}で指定してください`);
+  }
+  return { service: service || null, since: since || null, tail };
+}
+
+function parseTerminalSize(input: unknown, fallback: number, label: string): number {
+  if (input === undefined || input === null || input === "") {
+    return fallback;
+  }
+  const value = Number(input);
+  if (!Number.isInteger(value) || value < 1 || value > 1000) {
+    throw new Error(`${label}が不正です`);
+  }
+  return value;
+}
+
+function parseShellOptions(query: { service?: string; cols?: string; rows?: string }): ShellOptions {
+  const service = String(query.service ?? "").trim() || "app";
+  if (!/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(service)) {
+    throw new Error("serviceが不正です");
+  }
+  return {
+    service,
+    cols: parseTerminalSize(query.cols, 80, "cols"),
+    rows: parseTerminalSize(query.rows, 24, "rows"),
+  };
+}
+
+function isMissingMetadata(
+  name: string,
+  runtime: string,
+  runtimeVersion: string,
+  dbType: string
+): boolean {
+  return !name || !runtime || !dbType || (!runtimeVersion && runtime !== "custom");
+}
+
+async function inspectPackLayout(
+  runtime: Runtime,
+  dbType: DbType,
+  sidecars: SidecarType[],
+  bot: BotConfig | null,
+  flag: FlagConfig | null,
+  filesDir: string,
+  options: RuntimeOptions
+): Promise<RuntimeOptions> {
+  if (runtime === "php") {
+    await assertDocrootIndex(filesDir);
+  } else if (runtime === "node") {
+    await assertNodeEntry(filesDir, options.node_entry ?? DEFAULT_NODE_ENTRY);
+  } else if (runtime === "flask") {
+    await assertPythonModule(filesDir, options.python_entrypoint ?? DEFAULT_PYTHON_ENTRYPOINT);
+  } else if (runtime === "custom") {
+    const inspected = await inspectCustomPack(filesDir, options);
+    if (inspected.custom_mode === "compose" && dbType !== "none") {
+      throw new Error("docker-compose.yml同梱の場合はdb_typeをnoneにしてください");
+    }
+    if (inspected.custom_mode === "compose" && (sidecars.length > 0 || bot)) {
+      throw new Error("docker-compose.yml同梱の場合はsidecars/botを指定できません");
+    }
+    if (inspected.custom_mode === "compose" && flag?.delivery.some((d) => d !== "placeholder")) {
+      throw new Error("docker-compose.yml同梱の場合、flagはplaceholderでのみ配布できます");
+    }
+    return inspected;
+  }
+  return options;
+}
+
+function parsePortRanges(input: unknown, field = "port_ranges"): PortRange[] {
   if (!Array.isArray(input)) {
-    throw new Error("port_rangesが不正です");
+    throw new Error(`${field}が不正です`);
   }
   const ranges: PortRange[] = input.map((range) => {
     if (
@@ -84,13 +661,13 @@ function parsePortRanges(input: unknown): PortRange[] {
       typeof (range as PortRange).start !== "number" ||
       typeof (range as PortRange).end !== "number"
     ) {
-      throw new Error("port_rangesが不正です");
+      throw new Error(`${field}が不正です`);
     }
     return { start: (range as PortRange).start, end: (range as PortRange).end };
   });
   for (const range of ranges) {
     if (range.start < 1 || range.end > 65535 || range.start > range.end) {
-      throw new Error("port_rangesの範囲が不正です");
+      throw new Error(`${field}の範囲が不正です`);
     }
   }
   return ranges;
@@ -134,8 +711,17 @@ async function parseMultipart(request: FastifyRequest): Promise<{
   return { zipPath, zipHash, metadata };
 }
 
-function getContainerPort(runtime: Runtime): number {
-  return runtime === "php" ? 80 : 8000;
+function getContainerPort(runtime: Runtime, options: RuntimeOptions): number {
+  switch (runtime) {
+    case "php":
+      return 80;
+    case "node":
+      return 3000;
+    case "custom":
+      return options.custom_container_port ?? 80;
+    default:
+      return 8000;
+  }
 }
 
 async function copyDir(src: string, dest: string): Promise<void> {
@@ -147,53 +733,114 @@ function getComposeFilePath(workdir: string): string {
   return path.join(workdir, "compose", "docker-compose.yml");
 }
 
-type MysqlSecrets = {
-  mysql_root_password: string;
-  mysql_database: string;
-  mysql_user: string;
-  mysql_password: string;
-};
+async function fileExists(filePath: string): Promise<boolean> {
+  return await fs
+    .stat(filePath)
+    .then((stat) => stat.isFile())
+    .catch(() => false);
+}
+
+async function prepareInstancePack(challenge: Challenge, workdir: string): Promise<void> {
+  const packDir = path.join(workdir, "pack");
+  await copyDir(path.join(challenge.storage_path, "files"), packDir);
+  const flagConfig = JSON.parse(challenge.flag_json) as FlagConfig | null;
+  if (flagConfig?.delivery.includes("placeholder")) {
+    const flag = await loadInstanceFlag(workdir, flagConfig);
+    await substituteFlagPlaceholders(packDir, flag);
+  }
+}
 
-async function readMysqlSecretsFile(workdir: string): Promise<Partial<MysqlSecrets> | null> {
-  const secretPath = path.join(workdir, "secrets.json");
-  const exists = await fs
-    .stat(secretPath)
+async function removeContainerOwnedDir(dir: string): Promise<void> {
+  if (!(await fs.stat(dir).then((stat) => stat.isDirectory()).catch(() => false))) {
+    return;
+  }
+  const removed = await fs
+    .rm(dir, { recursive: true, force: true })
     .then(() => true)
     .catch(() => false);
-  if (!exists) {
-    return null;
+  if (removed) {
+    return;
+  }
+  const result = await clearDirectoryWithContainer(dir);
+  if (result.code !== 0) {
+    throw new Error(result.stderr || `${path.basename(dir)}の削除に失敗しました`);
   }
-  const content = await fs.readFile(secretPath, "utf8");
-  return JSON.parse(content) as Partial<MysqlSecrets>;
+  await fs.rm(dir, { recursive: true, force: true });
 }
 
-async function writeMysqlSecrets(workdir: string, secrets: MysqlSecrets): Promise<void> {
-  await fs.writeFile(path.join(workdir, "secrets.json"), JSON.stringify(secrets, null, 2), "utf8");
+async function wipeDatabaseData(workdir: string): Promise<void> {
+  for (const name of ["mysql-data", "postgres-data"]) {
+    await removeContainerOwnedDir(path.join(workdir, name));
+  }
 }
 
-function getMysqlSettings(settings: Settings): MysqlSecrets {
-  return {
-    mysql_root_password: settings.mysql_root_password,
-    mysql_database: settings.mysql_database,
-    mysql_user: settings.mysql_user,
-    mysql_password:
-      settings.mysql_user === "root" ? settings.mysql_root_password : settings.mysql_password,
-  };
-}
+async function renderInstanceCompose(
+  challenge: Challenge,
+  workdir: string,
+  composeProject: string,
+  hostPort: number,
+  settings: Settings
+): Promise<void> {
+  const packDir = path.join(workdir, "pack");
+  const runtimeOptions = JSON.parse(challenge.runtime_options_json) as RuntimeOptions;
+  const dbInitExists = await fileExists(path.join(packDir, "db", "init.sql"));
+  const dbInitShExists = await fileExists(path.join(packDir, "db", "init.sh"));
+
+  let dbRootPassword: string | null = null;
+  let dbDatabase: string | null = null;
+  let dbUser: string | null = null;
+  let dbPassword: string | null = null;
+  if (challenge.db_type === "mysql") {
+    const mysqlSecrets = await loadMysqlSecrets(workdir, settings);
+    dbRootPassword = mysqlSecrets.mysql_root_password;
+    dbDatabase = mysqlSecrets.mysql_database;
+    dbUser = mysqlSecrets.mysql_user;
+    dbPassword = mysqlSecrets.mysql_password;
+  } else if (challenge.db_type === "postgres") {
+    const postgresSecrets = await loadPostgresSecrets(workdir, settings);
+    dbDatabase = postgresSecrets.postgres_database;
+    dbUser = postgresSecrets.postgres_user;
+    dbPassword = postgresSecrets.postgres_password;
+  }
 
-async function loadMysqlSecrets(workdir: string, settings: Settings): Promise<MysqlSecrets> {
-  const base = getMysqlSettings(settings);
-  const fromFile = await readMysqlSecretsFile(workdir);
-  const mysqlRootPassword = fromFile?.mysql_root_password ?? base.mysql_root_password;
-  const mysqlDatabase = fromFile?.mysql_database ?? base.mysql_database;
-  const mysqlUser = fromFile?.mysql_user ?? base.mysql_user;
-  let mysqlPassword = fromFile?.mysql_password ?? base.mysql_password;
-  if (mysqlUser === "root") {
-    mysqlPassword = mysqlRootPassword;
+  const flagConfig = JSON.parse(challenge.flag_json) as FlagConfig | null;
+  const flagValue = flagConfig ? await loadInstanceFlag(workdir, flagConfig) : null;
+  let bot = JSON.parse(challenge.bot_json) as BotConfig | null;
+  if (bot && flagValue !== null) {
+    bot = { ...bot, cookie_value: bot.cookie_value.split(FLAG_PLACEHOLDER).join(flagValue) };
   }
-  const secrets = { mysql_root_password: mysqlRootPassword, mysql_database: mysqlDatabase, mysql_user: mysqlUser, mysql_password: mysqlPassword };
-  await writeMysqlSecrets(workdir, secrets);
-  return secrets;
+
+  await writeComposeFiles(path.join(workdir, "compose"), {
+    runtime: challenge.runtime,
+    runtimeVersion: challenge.runtime_version,
+    composeProject,
+    hostBinding: formatHostBinding(resolveBindAddress(challenge, settings), hostPort),
+    appContainerPort: getContainerPort(challenge.runtime, runtimeOptions),
+    dbType: challenge.db_type,
+    dbRootPassword,
+    dbDatabase,
+    dbUser,
+    dbPassword,
+    dbInitExists,
+    dbInitShExists,
+    runtimeOptions,
+    sidecars: JSON.parse(challenge.sidecars_json) as SidecarType[],
+    bot,
+    flag: flagConfig && flagValue !== null ? { value: flagValue, config: flagConfig } : null,
+    resourceLimits: mergeResourceLimits(
+      JSON.parse(settings.resource_limits_json) as ResourceLimits,
+      JSON.parse(challenge.resource_limits_json) as ResourceLimits
+    ),
+    hardening: challenge.hardening,
+    networkPolicy: JSON.parse(challenge.network_policy_json) as NetworkPolicy,
+  });
+  await validateRenderedCompose(
+    getComposeFilePath(workdir),
+    composeProject,
+    workdir,
+    challenge.hardening,
+    challenge.runtime === "custom" && runtimeOptions.custom_mode === "compose"
+  );
 }
 
 server.get("/health", async () => ({ status: "ok" }));
@@ -208,6 +855,17 @@ server.get("/settings", async () => {
     mysql_database: settings.mysql_database,
     mysql_user: settings.mysql_user,
     mysql_password: settings.mysql_password,
+    postgres_database: settings.postgres_database,
+    postgres_user: settings.postgres_user,
+    postgres_password: settings.postgres_password,
+    default_ttl_minutes: settings.default_ttl_minutes,
+    resource_limits: JSON.parse(settings.resource_limits_json) as ResourceLimits,
+    shell_enabled: settings.shell_enabled === 1,
+    bind_address: settings.bind_address,
+    excluded_ports: JSON.parse(settings.excluded_ports_json) as PortRange[],
+    proxy_enabled: settings.proxy_enabled === 1,
+    proxy_port: settings.proxy_port,
+    proxy_mode: settings.proxy_mode,
     updated_at: settings.updated_at,
   };
 });
@@ -215,19 +873,28 @@ server.get("/settings", async () => {
 server.get("/ports/summary", async (request, reply) => {
   try {
     const settings = getSettings(db);
-    const ranges = JSON.parse(settings.port_ranges_json) as PortRange[];
-    const total = ranges.reduce((sum, range) => sum + (range.end - range.start + 1), 0);
-    const usedPorts = new Set<number>(
-      listRunningInstances(db).map((instance: Instance) => instance.host_port)
+    reply.send(
+      getPortSummary(
+        JSON.parse(settings.port_ranges_json) as PortRange[],
+        JSON.parse(settings.excluded_ports_json) as PortRange[],
+        listPortLeases(db).map((lease) => lease.port)
+      )
     );
-    let used = 0;
-    for (const port of usedPorts) {
-      if (ranges.some((range) => port >= range.start && port <= range.end)) {
-        used += 1;
-      }
-    }
-    const free = Math.max(total - used, 0);
-    reply.send({ total, free });
+  } catch (error) {
+    reply.status(500).send({ error: (error as Error).message });
+  }
+});
+
+server.get("/ports", async (request, reply) => {
+  try {
+    const settings = getSettings(db);
+    reply.send({
+      ranges: JSON.parse(settings.port_ranges_json) as PortRange[],
+      excluded: JSON.parse(settings.excluded_ports_json) as PortRange[],
+      bind_address: settings.bind_address,
+      leases: listPortLeases(db),
+      pinned: listPinnedPorts(db),
+    });
   } catch (error) {
     reply.status(500).send({ error: (error as Error).message });
   }
@@ -243,6 +910,17 @@ server.put("/settings", async (request, reply) => {
       mysql_database?: unknown;
       mysql_user?: unknown;
       mysql_password?: unknown;
+      postgres_database?: unknown;
+      postgres_user?: unknown;
+      postgres_password?: unknown;
+      default_ttl_minutes?: unknown;
+      resource_limits?: unknown;
+      shell_enabled?: unknown;
+      bind_address?: unknown;
+      excluded_ports?: unknown;
+      proxy_enabled?: unknown;
+      proxy_port?: unknown;
+      proxy_mode?: unknown;
     };
     const hasPortRanges = typeof body?.port_ranges !== "undefined";
     const hasHost = typeof body?.host !== "undefined";
@@ -252,11 +930,38 @@ server.put("/settings", async (request, reply) => {
       typeof body?.mysql_database !== "undefined" ||
       typeof body?.mysql_user !== "undefined" ||
       typeof body?.mysql_password !== "undefined";
+    const hasPostgres =
+      typeof body?.postgres_database !== "undefined" ||
+      typeof body?.postgres_user !== "undefined" ||
+      typeof body?.postgres_password !== "undefined";
+    const hasDefaultTtl = typeof body?.default_ttl_minutes !== "undefined";
+    const hasResourceLimits = typeof body?.resource_limits !== "undefined";
+    const hasShellEnabled = typeof body?.shell_enabled !== "undefined";
+    const hasBindAddress = typeof body?.bind_address !== "undefined";
+    const hasExcludedPorts = typeof body?.excluded_ports !== "undefined";
+    const hasProxyEnabled = typeof body?.proxy_enabled !== "undefined";
+    const hasProxyPort = typeof body?.proxy_port !== "undefined";
+    const hasProxyMode = typeof body?.proxy_mode !== "undefined";
 
-    if (!hasPortRanges && !hasMysql && !hasHost && !hasHostScheme) {
+    if (
+      !hasPortRanges &&
+      !hasMysql &&
+      !hasPostgres &&
+      !hasHost &&
+      !hasHostScheme &&
+      !hasDefaultTtl &&
+      !hasResourceLimits &&
+      !hasShellEnabled &&
+      !hasBindAddress &&
+      !hasExcludedPorts &&
+      !hasProxyEnabled &&
+      !hasProxyPort &&
+      !hasProxyMode
+    ) {
       throw new Error("更新内容がありません");
     }
 
+    const previous = getSettings(db);
     const ranges = hasPortRanges ? parsePortRanges(body?.port_ranges) : undefined;
     let host: string | undefined;
     if (hasHost) {
@@ -296,6 +1001,50 @@ server.put("/settings", async (request, reply) => {
       }
     }
 
+    let postgresDatabase: string | undefined;
+    let postgresUser: string | undefined;
+    let postgresPassword: string | undefined;
+
+    if (hasPostgres) {
+      postgresDatabase = String(body?.postgres_database ?? "").trim();
+      postgresUser = String(body?.postgres_user ?? "").trim();
+      postgresPassword = String(body?.postgres_password ?? "").trim();
+
+      if (!postgresDatabase || !postgresUser || !postgresPassword) {
+        throw new Error("PostgreSQL認証情報が不正です");
+      }
+    }
+
+    const defaultTtlMinutes = hasDefaultTtl ? parseTtlMinutes(body.default_ttl_minutes) : undefined;
+    const resourceLimits = hasResourceLimits
+      ? parseResourceLimits(body.resource_limits)
+      : undefined;
+    if (hasShellEnabled && typeof body.shell_enabled !== "boolean") {
+      throw new Error("shell_enabledが不正です");
+    }
+    const shellEnabled = hasShellEnabled ? (body.shell_enabled as boolean) : undefined;
+    const bindAddress = hasBindAddress ? await parseBindAddress(body.bind_address) : undefined;
+    const excludedPorts = hasExcludedPorts
+      ? parsePortRanges(body.excluded_ports, "excluded_ports")
+      : undefined;
+    if (hasProxyEnabled && typeof body.proxy_enabled !== "boolean") {
+      throw new Error("proxy_enabledが不正です");
+    }
+    const proxyEnabled = hasProxyEnabled ? (body.proxy_enabled as boolean) : undefined;
+    const proxyPort = hasProxyPort ? parseProxyPort(body.proxy_port) : undefined;
+    if (
+      isPortInRanges(
+        proxyPort ?? previous.proxy_port,
+        ranges ?? (JSON.parse(previous.port_ranges_json) as PortRange[])
+      )
+    ) {
+      throw new Error("proxy_portはポート範囲の外で指定してください");
+    }
+    if (hasProxyMode && (typeof body.proxy_mode !== "string" || !isProxyMode(body.proxy_mode))) {
+      throw new Error("proxy_modeはhostまたはpathで指定してください");
+    }
+    const proxyMode = hasProxyMode ? (body.proxy_mode as ProxyMode) : undefined;
+
     const settings = updateSettings(db, {
       portRanges: ranges,
       host,
@@ -304,7 +1053,42 @@ server.put("/settings", async (request, reply) => {
       mysqlDatabase,
       mysqlUser,
       mysqlPassword,
+      postgresDatabase,
+      postgresUser,
+      postgresPassword,
+      defaultTtlMinutes,
+      resourceLimits,
+      shellEnabled,
+      bindAddress,
+      excludedPorts,
+      proxyEnabled,
+      proxyPort,
+      proxyMode,
     });
+    if (shellEnabled === false) {
+      for (const shell of shellSessions) {
+        shell.kill();
+      }
+    }
+    if (
+      settings.proxy_enabled !== previous.proxy_enabled ||
+      settings.proxy_port !== previous.proxy_port ||
+      settings.proxy_mode !== previous.proxy_mode ||
+      settings.bind_address !== previous.bind_address
+    ) {
+      try {
+        await configureProxy(settings);
+      } catch (error) {
+        updateSettings(db, {
+          proxyEnabled: previous.proxy_enabled === 1,
+          proxyPort: previous.proxy_port,
+          proxyMode: previous.proxy_mode,
+          bindAddress: previous.bind_address,
+        });
+        await configureProxy(previous).catch(() => undefined);
+        throw new Error(`リバースプロキシを起動できませんでした: ${(error as Error).message}`);
+      }
+    }
     reply.send({
       port_ranges: JSON.parse(settings.port_ranges_json),
       host: settings.host ?? "",
@@ -313,6 +1097,17 @@ server.put("/settings", async (request, reply) => {
       mysql_database: settings.mysql_database,
       mysql_user: settings.mysql_user,
       mysql_password: settings.mysql_password,
+      postgres_database: settings.postgres_database,
+      postgres_user: settings.postgres_user,
+      postgres_password: settings.postgres_password,
+      default_ttl_minutes: settings.default_ttl_minutes,
+      resource_limits: JSON.parse(settings.resource_limits_json) as ResourceLimits,
+      shell_enabled: settings.shell_enabled === 1,
+      bind_address: settings.bind_address,
+      excluded_ports: JSON.parse(settings.excluded_ports_json) as PortRange[],
+      proxy_enabled: settings.proxy_enabled === 1,
+      proxy_port: settings.proxy_port,
+      proxy_mode: settings.proxy_mode,
       updated_at: settings.updated_at,
     });
   } catch (error) {
@@ -331,11 +1126,27 @@ server.post("/challenges", async (request, reply) => {
     const runtimeVersion = String(metadata.runtime_version ?? "").trim();
     const dbType = String(metadata.db_type ?? "").trim();
 
-    if (!name || !runtime || !runtimeVersion || !dbType) {
+    if (isMissingMetadata(name, runtime, runtimeVersion, dbType)) {
       throw new Error("metadataが不足しています");
     }
     assertRuntime(runtime);
     assertDbType(dbType);
+    const parsedOptions = parseRuntimeOptions(runtime, metadata.runtime_options);
+    const sidecars = parseSidecars(metadata.sidecars);
+    const bot = parseBotConfig(metadata.bot);
+    const flag = parseFlagConfig(metadata.flag);
+    const maxInstances = parseMaxInstances(metadata.max_instances);
+    const portOptions = parsePortOptions(
+      metadata.port_policy,
+      metadata.preferred_port,
+      maxInstances,
+      null
+    );
+    const bindAddress = (await parseBindAddress(metadata.bind_address)) || null;
+    const resourceLimits = parseResourceLimits(metadata.resource_limits);
+    const hardening = parseHardening(metadata.hardening);
+    const networkPolicy = parseNetworkPolicy(metadata.network_policy);
+    const healthcheck = parseHealthCheck(metadata.healthcheck);
 
     const challengeId = crypto.randomUUID();
     const challengeDir = resolveChallengeDir(paths, challengeId);
@@ -343,18 +1154,37 @@ server.post("/challenges", async (request, reply) => {
     await fs.mkdir(filesDir, { recursive: true });
     await extractZipSafe(zipPath, filesDir);
     await normalizeExtractedPack(filesDir);
-    if (runtime === "php") {
-      await assertDocrootIndex(filesDir);
-    }
+    const runtimeOptions = await inspectPackLayout(
+      runtime,
+      dbType,
+      sidecars,
+      bot,
+      flag,
+      filesDir,
+      parsedOptions
+    );
 
     const filesHash = await hashDirectory(filesDir);
     const now = new Date().toISOString();
     insertChallenge(db, {
       id: challengeId,
       name,
+      slug: generateChallengeSlug(db, name, challengeId),
       runtime,
       runtime_version: runtimeVersion,
       db_type: dbType,
+      runtime_options_json: JSON.stringify(runtimeOptions),
+      sidecars_json: JSON.stringify(sidecars),
+      bot_json: JSON.stringify(bot),
+      flag_json: JSON.stringify(flag),
+      max_instances: maxInstances,
+      ...portOptions,
+      last_port: null,
+      bind_address: bindAddress,
+      resource_limits_json: JSON.stringify(resourceLimits),
+      hardening,
+      network_policy_json: JSON.stringify(networkPolicy),
+      healthcheck_json: JSON.stringify(healthcheck),
       created_at: now,
       updated_at: now,
       files_hash: filesHash,
@@ -384,153 +1214,501 @@ server.get("/challenges/:id", async (request, reply) => {
   reply.send({ challenge, instances });
 });
 
-server.post("/instances", async (request, reply) => {
+server.patch("/challenges/:id", async (request, reply) => {
   try {
-    const body = request.body as { challenge_id?: string };
-    const challengeId = String(body?.challenge_id ?? "").trim();
-    if (!challengeId) {
-      throw new Error("challenge_idが必要です");
-    }
-    const challenge = getChallenge(db, challengeId);
+    const { id } = request.params as { id: string };
+    const body = (request.body ?? {}) as {
+      max_instances?: unknown;
+      port_policy?: unknown;
+      preferred_port?: unknown;
+      bind_address?: unknown;
+      slug?: unknown;
+    };
+    const challenge = getChallenge(db, id);
     if (!challenge) {
       reply.status(404).send({ error: "challengeが見つかりません" });
       return;
     }
+    const slug = "slug" in body ? parseSlug(body.slug, id) : challenge.slug;
+    const maxInstances =
+      "max_instances" in body ? parseMaxInstances(body.max_instances) : challenge.max_instances;
+    const portOptions = parsePortOptions(
+      "port_policy" in body ? body.port_policy : challenge.port_policy,
+      "preferred_port" in body ? body.preferred_port : challenge.preferred_port,
+      maxInstances,
+      id
+    );
+    const bindAddress =
+      "bind_address" in body
+        ? (await parseBindAddress(body.bind_address)) || null
+        : challenge.bind_address;
+    if (slug !== challenge.slug) {
+      updateChallengeSlug(db, id, slug);
+    }
+    reply.send(
+      updateChallengeLimits(db, id, {
+        max_instances: maxInstances,
+        ...portOptions,
+        bind_address: bindAddress,
+      })
+    );
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+  }
+});
 
-    const latestInstance = getLatestInstanceByChallenge(db, challengeId);
-    if (latestInstance) {
-      if (latestInstance.status === "running") {
-        reply.status(409).send({ error: "既に起動中です" });
-        return;
-      }
+const jobRuntime: JobRuntime = {
+  db,
+  handlers: {
+    start: runStartJob,
+    stop: runStopJob,
+    delete: runDeleteJob,
+    import: runImportJob,
+    restart: runRestartJob,
+    reset: runResetJob,
+    snapshot: runSnapshotJob,
+    restore: runRestoreJob,
+    delete_challenge: runDeleteChallengeJob,
+  },
+  onFailed: (job, message) => {
+    server.log.warn(`ジョブが失敗しました: ${job.type} ${job.id} ${message}`);
+  },
+};
 
-      const workdir = resolveWorkdir(paths, latestInstance.id);
-      const composeDir = path.join(workdir, "compose");
-      const packDir = path.join(workdir, "pack");
-      const composeFile = getComposeFilePath(workdir);
-      const packExists = await fs
-        .stat(packDir)
-        .then((stat) => stat.isDirectory())
-        .catch(() => false);
-      const composeExists = await fs
-        .stat(composeFile)
-        .then((stat) => stat.isFile())
-        .catch(() => false);
-
-      if (packExists && composeExists) {
-        const settings = getSettings(db);
-        const ranges = JSON.parse(settings.port_ranges_json) as PortRange[];
-      const reservedPorts = new Set(
-        listRunningInstances(db).map((instance: Instance) => instance.host_port)
-      );
-        let hostPort = latestInstance.host_port;
-
-        if (reservedPorts.has(hostPort)) {
-          hostPort = await findAvailablePort(ranges, reservedPorts);
-        } else {
-          const available = await isPortAvailable(hostPort);
-          if (!available) {
-            hostPort = await findAvailablePort(ranges, reservedPorts);
-          }
-        }
+function submitJob(type: JobType, target: JobTarget, payload: Record<string, unknown>): Job {
+  const job = createJob(db, type, target, payload);
+  scheduleJob(jobRuntime, job);
+  return job;
+}
 
-        const dbInitExists = await fs
-          .stat(path.join(packDir, "db", "init.sql"))
-          .then(() => true)
-          .catch(() => false);
-        const mysqlSecrets =
-          challenge.db_type === "mysql" ? await loadMysqlSecrets(workdir, settings) : null;
-
-        await writeComposeFiles(composeDir, {
-          runtime: challenge.runtime,
-          runtimeVersion: challenge.runtime_version,
-          hostPort,
-          dbType: challenge.db_type,
-          dbRootPassword: mysqlSecrets?.mysql_root_password ?? null,
-          dbDatabase: mysqlSecrets?.mysql_database ?? null,
-          dbUser: mysqlSecrets?.mysql_user ?? null,
-          dbPassword: mysqlSecrets?.mysql_password ?? null,
-          dbInitExists,
-        });
+function toJobResponse(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    phase: job.phase,
+    message: job.message,
+    error: job.error,
+    challenge_id: job.challenge_id,
+    instance_id: job.instance_id,
+    result: JSON.parse(job.result_json) as unknown,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    finished_at: job.finished_at,
+    updated_at: job.updated_at,
+  };
+}
 
-        const composeResult = await composeUp(composeFile, latestInstance.compose_project, workdir);
-        if (composeResult.code !== 0) {
-          reply.status(500).send({ error: composeResult.stderr || "起動に失敗しました" });
-          return;
-        }
+server.get("/jobs", async (request, reply) => {
+  const query = request.query as { challenge_id?: string; active?: string; limit?: string };
+  const limit = query.limit ? Number(query.limit) : 50;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_JOB_LIST) {
+    reply.status(400).send({ error: `limitは1〜${MAX_JOB_LIST}で指定してください` });
+    return;
+  }
+  const jobs = listJobs(db, {
+    challengeId: query.challenge_id?.trim() || undefined,
+    activeOnly: query.active === "1" || query.active === "true",
+    limit,
+  });
+  reply.send({ jobs: jobs.map(toJobResponse) });
+});
 
-        const updated = updateInstanceAfterStart(db, latestInstance.id, "running", hostPort);
-        reply.send({ id: latestInstance.id, host_port: hostPort, instance: updated });
-        return;
-      }
+server.get("/jobs/:id", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const job = getJob(db, id);
+  if (!job) {
+    reply.status(404).send({ error: "jobが見つかりません" });
+    return;
+  }
+  reply.send(toJobResponse(job));
+});
 
-      await fs.rm(workdir, { recursive: true, force: true }).catch(() => undefined);
-      deleteInstance(db, latestInstance.id);
-    }
+function assertCanStart(challenge: Challenge, owner: string): Instance | null {
+  const latestInstance = getInstanceByOwner(db, challenge.id, owner);
+  if (latestInstance?.status === "running" || latestInstance?.status === "starting") {
+    throw new Error("既に起動中です");
+  }
+  if (countRunningInstancesByChallenge(db, challenge.id) >= challenge.max_instances) {
+    throw new Error(`最大インスタンス数(${challenge.max_instances})に達しています`);
+  }
+  assertPinnedPortFree(challenge, latestInstance?.id ?? null);
+  return latestInstance;
+}
 
-    const settings = getSettings(db);
-    const ranges = JSON.parse(settings.port_ranges_json) as PortRange[];
-    const reservedPorts = new Set(
-      listRunningInstances(db).map((instance: Instance) => instance.host_port)
+function assertPinnedPortFree(challenge: Challenge, instanceId: string | null): void {
+  if (challenge.port_policy !== "pinned" || challenge.preferred_port === null) {
+    return;
+  }
+  const lease = getPortLease(db, challenge.preferred_port);
+  if (lease && lease.instance_id !== instanceId) {
+    throw new Error(
+      `固定ポート${challenge.preferred_port}は${describePortHolder(lease)}が使用中です`
     );
-    const hostPort = await findAvailablePort(ranges, reservedPorts);
-    const containerPort = getContainerPort(challenge.runtime);
+  }
+}
 
-    const instanceId = crypto.randomUUID();
-    const workdir = resolveWorkdir(paths, instanceId);
-    const packDir = path.join(workdir, "pack");
-    const composeDir = path.join(workdir, "compose");
+async function assignHostPort(
+  challenge: Challenge,
+  instanceId: string,
+  settings: Settings,
+  currentPort: number | null
+): Promise<number> {
+  const ranges = JSON.parse(settings.port_ranges_json) as PortRange[];
+  const excluded = JSON.parse(settings.excluded_ports_json) as PortRange[];
+  const bindAddress = resolveBindAddress(challenge, settings);
+  let hostPort: number;
+  if (challenge.port_policy === "pinned" && challenge.preferred_port !== null) {
+    hostPort = challenge.preferred_port;
+    if (!isPortInRanges(hostPort, ranges)) {
+      throw new Error(`固定ポート${hostPort}がポート範囲外です`);
+    }
+    if (isPortInRanges(hostPort, excluded)) {
+      throw new Error(`固定ポート${hostPort}は除外ポートに含まれています`);
+    }
+    assertPinnedPortFree(challenge, instanceId);
+    leasePort(db, instanceId, hostPort);
+    if (!(await isPortAvailable(hostPort, bindAddress))) {
+      throw new Error(`固定ポート${hostPort}は他のプロセスが使用中です`);
+    }
+  } else {
+    const preferred = [
+      currentPort,
+      challenge.port_policy === "sticky" ? challenge.last_port : null,
+      challenge.preferred_port,
+    ].filter((port): port is number => port !== null);
+    const reserved = new Set(
+      listPinnedPorts(db)
+        .filter((item) => item.challenge_id !== challenge.id)
+        .map((item) => item.port)
+    );
+    hostPort = await allocatePort(db, instanceId, {
+      ranges,
+      excluded,
+      preferred,
+      reserved,
+      bindAddress,
+    });
+  }
+  updateChallengeLastPort(db, challenge.id, hostPort);
+  return hostPort;
+}
 
-    await copyDir(path.join(challenge.storage_path, "files"), packDir);
+async function buildAndUp(
+  composeFile: string,
+  project: string,
+  workdir: string,
+  progress: JobContext["progress"]
+): Promise<CommandResult> {
+  progress("build");
+  const build = await composeBuild(composeFile, project, workdir, (line) =>
+    progress("build", line)
+  );
+  if (build.code !== 0) {
+    return build;
+  }
+  progress("up");
+  return await composeUp(composeFile, project, workdir, (line) => progress("up", line));
+}
 
-    const dbInitExists = await fs
-      .stat(path.join(packDir, "db", "init.sql"))
-      .then(() => true)
-      .catch(() => false);
+function deferReadiness(
+  context: JobContext,
+  challenge: Challenge,
+  instanceId: string,
+  composeProject: string,
+  hostPort: number
+): void {
+  context.progress("ready");
+  const readiness = startReadinessCheck(challenge, instanceId, composeProject, hostPort);
+  context.defer(async () => {
+    await readiness;
+    const instance = getInstance(db, instanceId);
+    if (instance?.status === "error") {
+      throw new Error(instance.status_reason ?? "起動に失敗しました");
+    }
+    if (instance?.status !== "running") {
+      throw new Error("起動確認が中断されました");
+    }
+  });
+}
 
-    const mysqlSecrets =
-      challenge.db_type === "mysql" ? await loadMysqlSecrets(workdir, settings) : null;
+async function startInstanceContainers(
+  context: JobContext,
+  challenge: Challenge,
+  instance: Instance,
+  settings: Settings,
+  ttlMinutes: number,
+  copyPack: boolean
+): Promise<void> {
+  const workdir = resolveWorkdir(paths, instance.id);
+  const composeFile = getComposeFilePath(workdir);
+  try {
+    if (copyPack) {
+      context.progress("copy");
+      await prepareInstancePack(challenge, workdir);
+    }
+    context.progress("render");
+    await renderInstanceCompose(
+      challenge,
+      workdir,
+      instance.compose_project,
+      instance.host_port,
+      settings
+    );
+    const result = await buildAndUp(
+      composeFile,
+      instance.compose_project,
+      workdir,
+      context.progress
+    );
+    if (result.code !== 0) {
+      throw new Error(result.stderr.trim().slice(-1000) || "起動に失敗しました");
+    }
+  } catch (error) {
+    updateInstanceStatus(db, instance.id, "error", (error as Error).message);
+    throw error;
+  }
+  updateInstanceAfterStart(
+    db,
+    instance.id,
+    "starting",
+    instance.host_port,
+    computeExpiresAt(ttlMinutes)
+  );
+}
 
-    await writeComposeFiles(composeDir, {
-      runtime: challenge.runtime,
-      runtimeVersion: challenge.runtime_version,
-      hostPort,
-      dbType: challenge.db_type,
-      dbRootPassword: mysqlSecrets?.mysql_root_password ?? null,
-      dbDatabase: mysqlSecrets?.mysql_database ?? null,
-      dbUser: mysqlSecrets?.mysql_user ?? null,
-      dbPassword: mysqlSecrets?.mysql_password ?? null,
-      dbInitExists,
-    });
+async function runStartJob(context: JobContext): Promise<unknown> {
+  const challengeId = String(context.payload.challenge_id ?? "");
+  const owner = String(context.payload.owner ?? "");
+  const challenge = getChallenge(db, challengeId);
+  if (!challenge) {
+    throw new Error("challengeが見つかりません");
+  }
+  const latestInstance = assertCanStart(challenge, owner);
 
-    const composeProject = `ctfwl_${instanceId.replace(/-/g, "")}`;
+  const settings = getSettings(db);
+  const ttlMinutes =
+    typeof context.payload.ttl_minutes === "number"
+      ? context.payload.ttl_minutes
+      : settings.default_ttl_minutes;
+
+  if (latestInstance) {
+    const workdir = resolveWorkdir(paths, latestInstance.id);
+    const packDir = path.join(workdir, "pack");
     const composeFile = getComposeFilePath(workdir);
-    const composeResult = await composeUp(composeFile, composeProject, workdir);
+    const packExists = await fs
+      .stat(packDir)
+      .then((stat) => stat.isDirectory())
+      .catch(() => false);
+    const composeExists = await fs
+      .stat(composeFile)
+      .then((stat) => stat.isFile())
+      .catch(() => false);
+
+    if (packExists && composeExists) {
+      context.setTarget({ instanceId: latestInstance.id });
+      if (latestInstance.status === "error") {
+        await archiveLogs(latestInstance, "error");
+      }
+      const hostPort = await assignHostPort(
+        challenge,
+        latestInstance.id,
+        settings,
+        latestInstance.host_port
+      );
+
+      await withBusyProject(latestInstance.compose_project, async () => {
+        updateInstanceAfterStart(db, latestInstance.id, "starting", hostPort, null);
+        await startInstanceContainers(
+          context,
+          challenge,
+          { ...latestInstance, host_port: hostPort },
+          settings,
+          ttlMinutes,
+          false
+        );
+      });
+
+      deferReadiness(context, challenge, latestInstance.id, latestInstance.compose_project, hostPort);
+      return { id: latestInstance.id, host_port: hostPort };
+    }
+
+    await fs.rm(workdir, { recursive: true, force: true }).catch(() => undefined);
+    deleteInstance(db, latestInstance.id);
+  }
+
+  const runtimeOptions = JSON.parse(challenge.runtime_options_json) as RuntimeOptions;
+  const containerPort = getContainerPort(challenge.runtime, runtimeOptions);
+
+  const instanceId = crypto.randomUUID();
+  context.setTarget({ instanceId });
+  const composeProject = `ctfwl_${instanceId.replace(/-/g, "")}`;
 
-    const status = composeResult.code === 0 ? "running" : "error";
+  let hostPort: number;
+  try {
+    hostPort = await assignHostPort(challenge, instanceId, settings, null);
+  } catch (error) {
+    releasePortLease(db, instanceId);
+    throw error;
+  }
+
+  await withBusyProject(composeProject, async () => {
     const now = new Date().toISOString();
-    insertInstance(db, {
+    const instance: Instance = {
       id: instanceId,
       challenge_id: challengeId,
-      status,
+      owner,
+      status: "starting",
+      status_reason: null,
       host_port: hostPort,
       container_port: containerPort,
       compose_project: composeProject,
+      expires_at: null,
       created_at: now,
       updated_at: now,
-    });
+    };
+    insertInstance(db, instance);
+    await startInstanceContainers(context, challenge, instance, settings, ttlMinutes, true);
+  });
 
-    if (composeResult.code !== 0) {
-      reply.status(500).send({ error: composeResult.stderr || "起動に失敗しました" });
+  deferReadiness(context, challenge, instanceId, composeProject, hostPort);
+  return { id: instanceId, host_port: hostPort };
+}
+
+server.post("/instances", async (request, reply) => {
+  try {
+    const body = request.body as {
+      challenge_id?: string;
+      owner?: unknown;
+      ttl_minutes?: unknown;
+    };
+    const challengeId = String(body?.challenge_id ?? "").trim();
+    if (!challengeId) {
+      throw new Error("challenge_idが必要です");
+    }
+    const owner = parseOwner(body?.owner);
+    const challenge = getChallenge(db, challengeId);
+    if (!challenge) {
+      reply.status(404).send({ error: "challengeが見つかりません" });
+      return;
+    }
+    const ttlMinutes =
+      typeof body?.ttl_minutes === "undefined" || body.ttl_minutes === ""
+        ? null
+        : parseTtlMinutes(body.ttl_minutes);
+
+    try {
+      assertCanStart(challenge, owner);
+    } catch (error) {
+      reply.status(409).send({ error: (error as Error).message });
       return;
     }
 
-    reply.send({ id: instanceId, host_port: hostPort });
+    const job = submitJob(
+      "start",
+      { challengeId },
+      { challenge_id: challengeId, owner, ttl_minutes: ttlMinutes }
+    );
+    reply.status(202).send(toJobResponse(job));
   } catch (error) {
     reply.status(400).send({ error: (error as Error).message });
   }
 });
 
+async function archiveLogs(instance: Instance, reason: string): Promise<void> {
+  if (instance.status === "stopped") {
+    return;
+  }
+  const workdir = resolveWorkdir(paths, instance.id);
+  try {
+    await archiveInstanceLogs(workdir, getComposeFilePath(workdir), instance.compose_project, reason);
+  } catch (error) {
+    server.log.warn(`ログの保存に失敗しました: ${instance.id} ${(error as Error).message}`);
+  }
+}
+
+async function withBusyProject<T>(project: string, task: () => Promise<T>): Promise<T> {
+  if (busyProjects.has(project)) {
+    throw new Error("このインスタンスは処理中です");
+  }
+  busyProjects.add(project);
+  try {
+    return await task();
+  } finally {
+    busyProjects.delete(project);
+  }
+}
+
+function startReadinessCheck(
+  challenge: Challenge,
+  instanceId: string,
+  composeProject: string,
+  hostPort: number
+): Promise<void> {
+  const existing = readinessChecks.get(instanceId);
+  if (existing) {
+    return existing;
+  }
+  const workdir = resolveWorkdir(paths, instanceId);
+  const isStarting = () => getInstance(db, instanceId)?.status === "starting";
+  const check = waitForReady({
+    composeFile: getComposeFilePath(workdir),
+    project: composeProject,
+    cwd: workdir,
+    hostPort,
+    bindAddress: resolveBindAddress(challenge, getSettings(db)),
+    healthcheck: JSON.parse(challenge.healthcheck_json) as HealthCheck,
+    isCancelled: () => !isStarting(),
+  })
+    .catch((error: Error) => ({ ready: false as const, reason: error.message }))
+    .then((result) => {
+      if (!isStarting()) {
+        return;
+      }
+      if (result.ready) {
+        updateInstanceStatus(db, instanceId, "running");
+        return;
+      }
+      updateInstanceStatus(db, instanceId, "error", result.reason);
+      server.log.warn(`インスタンスの起動確認に失敗しました: ${instanceId} ${result.reason}`);
+    })
+    .finally(() => {
+      readinessChecks.delete(instanceId);
+    });
+  readinessChecks.set(instanceId, check);
+  return check;
+}
+
+async function runStopJob(context: JobContext): Promise<unknown> {
+  const id = String(context.payload.instance_id ?? "");
+  const instance = getInstance(db, id);
+  if (!instance) {
+    throw new Error("instanceが見つかりません");
+  }
+  const reason = context.payload.reason === "expired" ? "expired" : "stop";
+  if (
+    reason === "expired" &&
+    (!instance.expires_at ||
+      new Date(instance.expires_at).getTime() > Date.now() ||
+      (instance.status !== "running" && instance.status !== "starting"))
+  ) {
+    return instance;
+  }
+  const workdir = resolveWorkdir(paths, id);
+  const composeFile = getComposeFilePath(workdir);
+  context.progress("stop");
+  return await withBusyProject(instance.compose_project, async () => {
+    await archiveLogs(instance, reason);
+    const result = await composeDown(composeFile, instance.compose_project, workdir, (line) =>
+      context.progress("stop", line)
+    );
+    if (result.code !== 0) {
+      throw new Error(result.stderr || "停止に失敗しました");
+    }
+    return updateInstanceStatus(db, id, "stopped");
+  });
+}
+
 server.post("/instances/:id/stop", async (request, reply) => {
   const { id } = request.params as { id: string };
   const instance = getInstance(db, id);
@@ -538,36 +1716,384 @@ server.post("/instances/:id/stop", async (request, reply) => {
     reply.status(404).send({ error: "instanceが見つかりません" });
     return;
   }
-  const workdir = resolveWorkdir(paths, id);
-  const composeFile = getComposeFilePath(workdir);
-  const result = await composeDown(composeFile, instance.compose_project, workdir);
+  const job = submitJob(
+    "stop",
+    { challengeId: instance.challenge_id, instanceId: id },
+    { instance_id: id }
+  );
+  reply.status(202).send(toJobResponse(job));
+});
+
+function getJobTarget(context: JobContext): { instance: Instance; challenge: Challenge } {
+  const target = getInstanceWithChallenge(String(context.payload.instance_id ?? ""));
+  if ("error" in target) {
+    throw new Error(target.error);
+  }
+  return target;
+}
+
+async function runRestartJob(context: JobContext): Promise<unknown> {
+  const { instance, challenge } = getJobTarget(context);
+  if (instance.status === "stopped") {
+    throw new Error("インスタンスが起動していません");
+  }
+  const workdir = resolveWorkdir(paths, instance.id);
+  context.progress("up");
+  const result = await withBusyProject(instance.compose_project, async () => {
+    const restarted = await composeRestart(
+      getComposeFilePath(workdir),
+      instance.compose_project,
+      workdir
+    );
+    if (restarted.code === 0) {
+      updateInstanceStatus(db, instance.id, "starting");
+    }
+    return restarted;
+  });
   if (result.code !== 0) {
-    reply.status(500).send({ error: result.stderr || "停止に失敗しました" });
+    throw new Error(result.stderr || "再起動に失敗しました");
+  }
+  deferReadiness(context, challenge, instance.id, instance.compose_project, instance.host_port);
+  return { id: instance.id };
+}
+
+server.post("/instances/:id/restart", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const target = getInstanceWithChallenge(id);
+  if ("error" in target) {
+    reply.status(404).send({ error: target.error });
     return;
   }
-  const updated = updateInstanceStatus(db, id, "stopped");
-  reply.send(updated);
+  const { instance } = target;
+  if (instance.status === "stopped") {
+    reply.status(409).send({ error: "インスタンスが起動していません" });
+    return;
+  }
+  const job = submitJob(
+    "restart",
+    { challengeId: instance.challenge_id, instanceId: id },
+    { instance_id: id }
+  );
+  reply.status(202).send(toJobResponse(job));
 });
 
-server.delete("/instances/:id", async (request, reply) => {
-  const { id } = request.params as { id: string };
+type RebuildSteps = {
+  prepare: (workdir: string) => Promise<void>;
+  afterUp?: (workdir: string, composeFile: string) => Promise<void>;
+};
+
+async function rebuildInstance(
+  context: JobContext,
+  instance: Instance,
+  challenge: Challenge,
+  reason: string,
+  steps: RebuildSteps
+): Promise<void> {
+  const active = instance.status === "running" || instance.status === "starting";
+  if (!active && countRunningInstancesByChallenge(db, challenge.id) >= challenge.max_instances) {
+    throw new Error(`最大インスタンス数(${challenge.max_instances})に達しています`);
+  }
+  const settings = getSettings(db);
+  const workdir = resolveWorkdir(paths, instance.id);
+  const composeFile = getComposeFilePath(workdir);
+  context.progress("stop");
+  await withBusyProject(instance.compose_project, async () => {
+    await archiveLogs(instance, reason);
+    const down = await composeDown(composeFile, instance.compose_project, workdir);
+    if (down.code !== 0) {
+      throw new Error(down.stderr || "停止に失敗しました");
+    }
+    updateInstanceStatus(db, instance.id, "stopped");
+
+    const leased = leasePort(db, instance.id, instance.host_port);
+    const bindAddress = resolveBindAddress(challenge, settings);
+    if (!leased || !(await isPortAvailable(instance.host_port, bindAddress))) {
+      throw new Error(`ポート${instance.host_port}が使用中のため起動できません`);
+    }
+
+    context.progress("copy");
+    await steps.prepare(workdir);
+    context.progress("render");
+    await renderInstanceCompose(
+      challenge,
+      workdir,
+      instance.compose_project,
+      instance.host_port,
+      settings
+    );
+
+    context.progress("up");
+    const up = await composeUp(composeFile, instance.compose_project, workdir, (line) =>
+      context.progress("up", line)
+    );
+    if (up.code !== 0) {
+      updateInstanceStatus(
+        db,
+        instance.id,
+        "error",
+        up.stderr.trim().slice(-1000) || "起動に失敗しました"
+      );
+      throw new Error(up.stderr || "起動に失敗しました");
+    }
+    if (steps.afterUp) {
+      try {
+        await steps.afterUp(workdir, composeFile);
+      } catch (error) {
+        updateInstanceStatus(db, instance.id, "error", (error as Error).message);
+        throw error;
+      }
+    }
+    updateInstanceAfterStart(
+      db,
+      instance.id,
+      "starting",
+      instance.host_port,
+      active ? instance.expires_at : computeExpiresAt(settings.default_ttl_minutes)
+    );
+  });
+  deferReadiness(context, challenge, instance.id, instance.compose_project, instance.host_port);
+}
+
+function getInstanceWithChallenge(
+  id: string
+): { instance: Instance; challenge: Challenge } | { error: string } {
   const instance = getInstance(db, id);
   if (!instance) {
+    return { error: "instanceが見つかりません" };
+  }
+  const challenge = getChallenge(db, instance.challenge_id);
+  if (!challenge) {
+    return { error: "challengeが見つかりません" };
+  }
+  return { instance, challenge };
+}
+
+async function runResetJob(context: JobContext): Promise<unknown> {
+  const { instance, challenge } = getJobTarget(context);
+  await rebuildInstance(context, instance, challenge, "reset", {
+    prepare: async (workdir) => {
+      await removeContainerOwnedDir(path.join(workdir, "pack"));
+      await prepareInstancePack(challenge, workdir);
+      await wipeDatabaseData(workdir);
+    },
+  });
+  return { id: instance.id };
+}
+
+server.post("/instances/:id/reset", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const target = getInstanceWithChallenge(id);
+  if ("error" in target) {
+    reply.status(404).send({ error: target.error });
+    return;
+  }
+  const job = submitJob(
+    "reset",
+    { challengeId: target.instance.challenge_id, instanceId: id },
+    { instance_id: id }
+  );
+  reply.status(202).send(toJobResponse(job));
+});
+
+server.get("/instances/:id/snapshots", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  if (!getInstance(db, id)) {
     reply.status(404).send({ error: "instanceが見つかりません" });
     return;
   }
+  reply.send({ snapshots: await listSnapshots(resolveWorkdir(paths, id)) });
+});
+
+async function runSnapshotJob(context: JobContext): Promise<unknown> {
+  const { instance, challenge } = getJobTarget(context);
+  if (challenge.db_type !== "none" && instance.status !== "running") {
+    throw new Error("DBを含むスナップショットは起動中のみ作成できます");
+  }
+  const workdir = resolveWorkdir(paths, instance.id);
+  context.progress("snapshot");
+  return await withBusyProject(instance.compose_project, () =>
+    createSnapshot(
+      workdir,
+      getComposeFilePath(workdir),
+      instance.compose_project,
+      challenge.db_type,
+      String(context.payload.name ?? "")
+    )
+  );
+}
+
+server.post("/instances/:id/snapshots", async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const body = request.body as { name?: unknown } | undefined;
+    const target = getInstanceWithChallenge(id);
+    if ("error" in target) {
+      reply.status(404).send({ error: target.error });
+      return;
+    }
+    const { instance, challenge } = target;
+    const name = parseSnapshotName(body?.name);
+    if (challenge.db_type !== "none" && instance.status !== "running") {
+      reply.status(409).send({ error: "DBを含むスナップショットは起動中のみ作成できます" });
+      return;
+    }
+    const job = submitJob(
+      "snapshot",
+      { challengeId: instance.challenge_id, instanceId: id },
+      { instance_id: id, name }
+    );
+    reply.status(202).send(toJobResponse(job));
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+  }
+});
+
+async function runRestoreJob(context: JobContext): Promise<unknown> {
+  const { instance, challenge } = getJobTarget(context);
+  const snapshot = await getSnapshot(
+    resolveWorkdir(paths, instance.id),
+    String(context.payload.snapshot_id ?? "")
+  );
+  if (!snapshot) {
+    throw new Error("snapshotが見つかりません");
+  }
+  if (snapshot.db_type !== challenge.db_type) {
+    throw new Error("スナップショットのDB種別がChallengeと一致しません");
+  }
+  await rebuildInstance(context, instance, challenge, "restore", {
+    prepare: async (workdir) => {
+      await removeContainerOwnedDir(path.join(workdir, "pack"));
+      await restoreSnapshotPack(workdir, snapshot);
+      if (snapshot.has_database) {
+        await wipeDatabaseData(workdir);
+      }
+    },
+    afterUp: async (workdir, composeFile) => {
+      if (!snapshot.has_database) {
+        return;
+      }
+      context.progress("restore");
+      await waitForServiceHealthy(
+        composeFile,
+        instance.compose_project,
+        workdir,
+        "db",
+        DB_READY_TIMEOUT_SECONDS
+      );
+      await restoreSnapshotDatabase(workdir, composeFile, instance.compose_project, snapshot);
+    },
+  });
+  return { id: instance.id, snapshot_id: snapshot.id };
+}
+
+server.post("/instances/:id/snapshots/:snapshot/restore", async (request, reply) => {
+  try {
+    const { id, snapshot: snapshotId } = request.params as { id: string; snapshot: string };
+    const target = getInstanceWithChallenge(id);
+    if ("error" in target) {
+      reply.status(404).send({ error: target.error });
+      return;
+    }
+    const { instance, challenge } = target;
+    const snapshot = await getSnapshot(resolveWorkdir(paths, id), snapshotId);
+    if (!snapshot) {
+      reply.status(404).send({ error: "snapshotが見つかりません" });
+      return;
+    }
+    if (snapshot.db_type !== challenge.db_type) {
+      throw new Error("スナップショットのDB種別がChallengeと一致しません");
+    }
+    const job = submitJob(
+      "restore",
+      { challengeId: instance.challenge_id, instanceId: id },
+      { instance_id: id, snapshot_id: snapshot.id }
+    );
+    reply.status(202).send(toJobResponse(job));
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+  }
+});
+
+server.delete("/instances/:id/snapshots/:snapshot", async (request, reply) => {
+  try {
+    const { id, snapshot } = request.params as { id: string; snapshot: string };
+    if (!getInstance(db, id)) {
+      reply.status(404).send({ error: "instanceが見つかりません" });
+      return;
+    }
+    await deleteSnapshot(resolveWorkdir(paths, id), snapshot);
+    reply.send({ status: "deleted" });
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+  }
+});
+
+server.post("/instances/:id/extend", async (request, reply) => {
+  try {
+    const { id } = request.params as { id: string };
+    const body = request.body as { minutes?: unknown } | undefined;
+    const instance = getInstance(db, id);
+    if (!instance) {
+      reply.status(404).send({ error: "instanceが見つかりません" });
+      return;
+    }
+    if ((instance.status !== "running" && instance.status !== "starting") || !instance.expires_at) {
+      reply.status(409).send({ error: "有効期限付きで起動中のインスタンスではありません" });
+      return;
+    }
+    const settings = getSettings(db);
+    const minutes =
+      typeof body?.minutes === "undefined"
+        ? settings.default_ttl_minutes || DEFAULT_EXTEND_MINUTES
+        : parseTtlMinutes(body.minutes);
+    if (minutes === 0) {
+      throw new Error("延長時間が不正です");
+    }
+    const base = Math.max(Date.now(), new Date(instance.expires_at).getTime());
+    reply.send(updateInstanceExpiry(db, id, computeExpiresAt(minutes, base)));
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+  }
+});
+
+async function runDeleteJob(context: JobContext): Promise<unknown> {
+  const id = String(context.payload.instance_id ?? "");
+  const instance = getInstance(db, id);
+  if (!instance) {
+    throw new Error("instanceが見つかりません");
+  }
   const workdir = resolveWorkdir(paths, id);
   const composeFile = getComposeFilePath(workdir);
-  if (instance.status === "running") {
-    const result = await composeDown(composeFile, instance.compose_project, workdir);
-    if (result.code !== 0) {
-      reply.status(500).send({ error: result.stderr || "停止に失敗しました" });
-      return;
+  await withBusyProject(instance.compose_project, async () => {
+    if (instance.status !== "stopped" && (await fileExists(composeFile))) {
+      context.progress("stop");
+      const result = await composeDown(composeFile, instance.compose_project, workdir, (line) =>
+        context.progress("stop", line)
+      );
+      if (result.code !== 0) {
+        throw new Error(result.stderr || "停止に失敗しました");
+      }
     }
+    context.progress("cleanup");
+    deleteInstance(db, id);
+    await fs.rm(workdir, { recursive: true, force: true }).catch(() => undefined);
+  });
+  return { status: "deleted" };
+}
+
+server.delete("/instances/:id", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const instance = getInstance(db, id);
+  if (!instance) {
+    reply.status(404).send({ error: "instanceが見つかりません" });
+    return;
   }
-  deleteInstance(db, id);
-  await fs.rm(workdir, { recursive: true, force: true }).catch(() => undefined);
-  reply.send({ status: "deleted" });
+  const job = submitJob(
+    "delete",
+    { challengeId: instance.challenge_id, instanceId: id },
+    { instance_id: id }
+  );
+  reply.status(202).send(toJobResponse(job));
 });
 
 server.get("/instances/:id/logs", async (request, reply) => {
@@ -588,6 +2114,249 @@ server.get("/instances/:id/logs", async (request, reply) => {
   reply.send({ logs: result.stdout });
 });
 
+server.get("/instances/:id/services", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const instance = getInstance(db, id);
+  if (!instance) {
+    reply.status(404).send({ error: "instanceが見つかりません" });
+    return;
+  }
+  const workdir = resolveWorkdir(paths, id);
+  const result = await composeServices(getComposeFilePath(workdir), instance.compose_project, workdir);
+  if (result.code !== 0) {
+    reply.status(500).send({ error: result.stderr || "サービス一覧の取得に失敗しました" });
+    return;
+  }
+  reply.send({
+    services: result.stdout
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean),
+  });
+});
+
+server.get("/instances/:id/logs/stream", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const instance = getInstance(db, id);
+  if (!instance) {
+    reply.status(404).send({ error: "instanceが見つかりません" });
+    return;
+  }
+  let options: LogStreamOptions;
+  try {
+    options = parseLogStreamOptions(
+      request.query as { service?: string; since?: string; tail?: string }
+    );
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+    return;
+  }
+
+  const workdir = resolveWorkdir(paths, id);
+  reply.hijack();
+  for (const [key, value] of Object.entries(reply.getHeaders())) {
+    if (typeof value !== "undefined") {
+      reply.raw.setHeader(key, value);
+    }
+  }
+  reply.raw.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  const sendEvent = (event: string, data: string) => {
+    reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const child = streamComposeLogs(
+    getComposeFilePath(workdir),
+    instance.compose_project,
+    workdir,
+    options
+  );
+  let buffer = "";
+  child.stdout.on("data", (data) => {
+    buffer += data.toString();
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      sendEvent("log", line);
+    }
+  });
+  child.stderr.on("data", (data) => {
+    sendEvent("stderr", data.toString());
+  });
+  const heartbeat = setInterval(() => {
+    reply.raw.write(": ping\n\n");
+  }, LOG_HEARTBEAT_MS);
+  const finish = (message: string) => {
+    clearInterval(heartbeat);
+    if (reply.raw.writableEnded) {
+      return;
+    }
+    if (buffer) {
+      sendEvent("log", buffer);
+      buffer = "";
+    }
+    sendEvent("end", message);
+    reply.raw.end();
+  };
+  child.on("error", (error) => finish(error.message));
+  child.on("close", (code) => finish(code === 0 ? "ログの配信が終了しました" : `exit code ${code}`));
+  request.raw.on("close", () => {
+    clearInterval(heartbeat);
+    child.kill();
+  });
+});
+
+server.get(
+  "/instances/:id/shell",
+  {
+    websocket: true,
+    preValidation: async (request, reply) => {
+      const origin = request.headers.origin;
+      if (!origin || !allowedOrigins.has(origin)) {
+        return reply.status(403).send({ error: "許可されていないOriginです" });
+      }
+      if (getSettings(db).shell_enabled !== 1) {
+        return reply.status(403).send({ error: "シェルは無効化されています" });
+      }
+      const { id } = request.params as { id: string };
+      const instance = getInstance(db, id);
+      if (!instance) {
+        return reply.status(404).send({ error: "instanceが見つかりません" });
+      }
+      if (instance.status !== "running" && instance.status !== "starting") {
+        return reply.status(409).send({ error: "インスタンスが起動していません" });
+      }
+      try {
+        parseShellOptions(request.query as { service?: string; cols?: string; rows?: string });
+      } catch (error) {
+        return reply.status(400).send({ error: (error as Error).message });
+      }
+    },
+  },
+  (connection, request) => {
+    const { id } = request.params as { id: string };
+    const socket = connection.socket;
+    const send = (message: Record<string, unknown>) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+    const instance = getInstance(db, id);
+    if (!instance) {
+      send({ type: "error", message: "instanceが見つかりません" });
+      socket.close();
+      return;
+    }
+    const options = parseShellOptions(
+      request.query as { service?: string; cols?: string; rows?: string }
+    );
+    const workdir = resolveWorkdir(paths, id);
+    let shell: IPty;
+    try {
+      shell = spawnComposeShell(
+        getComposeFilePath(workdir),
+        instance.compose_project,
+        workdir,
+        options
+      );
+    } catch (error) {
+      send({ type: "error", message: (error as Error).message });
+      socket.close();
+      return;
+    }
+    shellSessions.add(shell);
+    server.log.info(`シェルを開きました: ${id} ${options.service} (${request.headers.origin})`);
+
+    let exited = false;
+    shell.onData((data) => send({ type: "output", data }));
+    shell.onExit(({ exitCode }) => {
+      exited = true;
+      shellSessions.delete(shell);
+      send({ type: "exit", code: exitCode });
+      socket.close();
+    });
+    socket.on("message", (raw) => {
+      let message: { type?: unknown; data?: unknown; cols?: unknown; rows?: unknown };
+      try {
+        message = JSON.parse(raw.toString()) as typeof message;
+      } catch {
+        return;
+      }
+      if (exited) {
+        return;
+      }
+      if (message.type === "input" && typeof message.data === "string") {
+        shell.write(message.data);
+      } else if (message.type === "resize") {
+        try {
+          shell.resize(
+            parseTerminalSize(message.cols, options.cols, "cols"),
+            parseTerminalSize(message.rows, options.rows, "rows")
+          );
+        } catch (error) {
+          send({ type: "error", message: (error as Error).message });
+        }
+      }
+    });
+    socket.on("close", () => {
+      shellSessions.delete(shell);
+      if (!exited) {
+        shell.kill();
+      }
+      server.log.info(`シェルを閉じました: ${id} ${options.service}`);
+    });
+  }
+);
+
+server.get("/instances/:id/logs/sessions", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  if (!getInstance(db, id)) {
+    reply.status(404).send({ error: "instanceが見つかりません" });
+    return;
+  }
+  reply.send({ sessions: await listLogSessions(resolveWorkdir(paths, id)) });
+});
+
+server.get("/instances/:id/logs/sessions/:session", async (request, reply) => {
+  try {
+    const { id, session } = request.params as { id: string; session: string };
+    const service = String((request.query as { service?: string }).service ?? "app");
+    if (!getInstance(db, id)) {
+      reply.status(404).send({ error: "instanceが見つかりません" });
+      return;
+    }
+    const logs = await readLogSession(resolveWorkdir(paths, id), session, service);
+    if (logs === null) {
+      reply.status(404).send({ error: "ログが見つかりません" });
+      return;
+    }
+    reply.send({ logs });
+  } catch (error) {
+    reply.status(400).send({ error: (error as Error).message });
+  }
+});
+
+server.get("/instances/:id/flag", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  const instance = getInstance(db, id);
+  if (!instance) {
+    reply.status(404).send({ error: "instanceが見つかりません" });
+    return;
+  }
+  const flag = await fs
+    .readFile(getFlagFilePath(resolveWorkdir(paths, id)), "utf8")
+    .catch(() => null);
+  if (flag === null) {
+    reply.status(404).send({ error: "flagが設定されていません" });
+    return;
+  }
+  reply.send({ flag: flag.trim() });
+});
+
 server.post("/challenges/:id/export", async (request, reply) => {
   const { id } = request.params as { id: string };
   const challenge = getChallenge(db, id);
@@ -604,6 +2373,18 @@ server.post("/challenges/:id/export", async (request, reply) => {
       runtime: challenge.runtime,
       runtime_version: challenge.runtime_version,
       db_type: challenge.db_type,
+      runtime_options: JSON.parse(challenge.runtime_options_json) as RuntimeOptions,
+      sidecars: JSON.parse(challenge.sidecars_json) as SidecarType[],
+      bot: JSON.parse(challenge.bot_json) as BotConfig | null,
+      flag: JSON.parse(challenge.flag_json) as FlagConfig | null,
+      max_instances: challenge.max_instances,
+      port_policy: challenge.port_policy,
+      preferred_port: challenge.preferred_port,
+      bind_address: challenge.bind_address,
+      resource_limits: JSON.parse(challenge.resource_limits_json) as ResourceLimits,
+      hardening: challenge.hardening,
+      network_policy: JSON.parse(challenge.network_policy_json) as NetworkPolicy,
+      healthcheck: JSON.parse(challenge.healthcheck_json) as HealthCheck,
     },
     files: {
       hash: challenge.files_hash,
@@ -620,41 +2401,53 @@ server.post("/challenges/:id/export", async (request, reply) => {
   reply.send(archive);
 });
 
-server.delete("/challenges/:id", async (request, reply) => {
-  const { id } = request.params as { id: string };
+async function runDeleteChallengeJob(context: JobContext): Promise<unknown> {
+  const id = String(context.payload.challenge_id ?? "");
   const challenge = getChallenge(db, id);
   if (!challenge) {
-    reply.status(404).send({ error: "challengeが見つかりません" });
-    return;
+    throw new Error("challengeが見つかりません");
   }
-
-  const instances = listInstancesByChallenge(db, id);
-  for (const instance of instances) {
+  for (const instance of listInstancesByChallenge(db, id)) {
     const workdir = resolveWorkdir(paths, instance.id);
     const composeFile = getComposeFilePath(workdir);
-    if (instance.status === "running") {
-      const result = await composeDown(composeFile, instance.compose_project, workdir);
-      if (result.code !== 0) {
-        reply.status(500).send({ error: result.stderr || "停止に失敗しました" });
-        return;
+    await withBusyProject(instance.compose_project, async () => {
+      if (instance.status !== "stopped" && (await fileExists(composeFile))) {
+        context.progress("stop", instance.id);
+        const result = await composeDown(composeFile, instance.compose_project, workdir);
+        if (result.code !== 0) {
+          throw new Error(result.stderr || "停止に失敗しました");
+        }
       }
-    }
-    await fs.rm(workdir, { recursive: true, force: true }).catch(() => undefined);
+      await fs.rm(workdir, { recursive: true, force: true }).catch(() => undefined);
+    });
   }
 
+  context.progress("cleanup");
   deleteInstancesByChallenge(db, id);
   deleteChallenge(db, id);
   await fs.rm(challenge.storage_path, { recursive: true, force: true }).catch(() => undefined);
+  return { status: "deleted" };
+}
 
-  reply.send({ status: "deleted" });
+server.delete("/challenges/:id", async (request, reply) => {
+  const { id } = request.params as { id: string };
+  if (!getChallenge(db, id)) {
+    reply.status(404).send({ error: "challengeが見つかりません" });
+    return;
+  }
+  const job = submitJob("delete_challenge", { challengeId: id }, { challenge_id: id });
+  reply.status(202).send(toJobResponse(job));
 });
 
-server.post("/import", async (request, reply) => {
+async function runImportJob(context: JobContext): Promise<unknown> {
+  const zipPath = String(context.payload.zip_path ?? "");
+  const metadata = (context.payload.metadata ?? null) as Record<string, unknown> | null;
+  const tempDir = path.join(paths.tmpDir, crypto.randomUUID());
   try {
-    const { zipPath, metadata } = await parseMultipart(request);
-    const tempDir = path.join(paths.tmpDir, crypto.randomUUID());
+    context.progress("extract");
     await extractZipSafe(zipPath, tempDir);
 
+    context.progress("validate");
     const manifestPath = path.join(tempDir, "manifest.json");
     let manifest: Manifest | null = null;
     const hasManifest = await fs
@@ -675,12 +2468,42 @@ server.post("/import", async (request, reply) => {
       manifest?.challenge?.runtime_version ?? String(metadata?.runtime_version ?? "").trim();
     const dbType = manifest?.challenge?.db_type ?? String(metadata?.db_type ?? "").trim();
 
-    if (!name || !runtime || !runtimeVersion || !dbType) {
+    if (isMissingMetadata(name, runtime, runtimeVersion, dbType)) {
       throw new Error("metadataが不足しています");
     }
 
     assertRuntime(runtime);
     assertDbType(dbType);
+    const parsedOptions = parseRuntimeOptions(
+      runtime,
+      manifest ? manifest.challenge.runtime_options : metadata?.runtime_options
+    );
+    const sidecars = parseSidecars(manifest ? manifest.challenge.sidecars : metadata?.sidecars);
+    const bot = parseBotConfig(manifest ? manifest.challenge.bot : metadata?.bot);
+    const flag = parseFlagConfig(manifest ? manifest.challenge.flag : metadata?.flag);
+    const maxInstances = parseMaxInstances(
+      manifest ? manifest.challenge.max_instances : metadata?.max_instances
+    );
+    const portOptions = parsePortOptions(
+      manifest ? manifest.challenge.port_policy : metadata?.port_policy,
+      manifest ? manifest.challenge.preferred_port : metadata?.preferred_port,
+      maxInstances,
+      null
+    );
+    const bindAddress =
+      (await parseBindAddress(
+        manifest ? manifest.challenge.bind_address : metadata?.bind_address
+      )) || null;
+    const resourceLimits = parseResourceLimits(
+      manifest ? manifest.challenge.resource_limits : metadata?.resource_limits
+    );
+    const hardening = parseHardening(manifest ? manifest.challenge.hardening : metadata?.hardening);
+    const networkPolicy = parseNetworkPolicy(
+      manifest ? manifest.challenge.network_policy : metadata?.network_policy
+    );
+    const healthcheck = parseHealthCheck(
+      manifest ? manifest.challenge.healthcheck : metadata?.healthcheck
+    );
 
     const filesDirCandidate = path.join(tempDir, "files");
     const filesDir = await fs
@@ -689,10 +2512,17 @@ server.post("/import", async (request, reply) => {
       .catch(() => tempDir);
 
     await normalizeExtractedPack(filesDir);
-    if (runtime === "php") {
-      await assertDocrootIndex(filesDir);
-    }
+    const runtimeOptions = await inspectPackLayout(
+      runtime,
+      dbType,
+      sidecars,
+      bot,
+      flag,
+      filesDir,
+      parsedOptions
+    );
 
+    context.progress("copy");
     const challengeId = crypto.randomUUID();
     const challengeDir = resolveChallengeDir(paths, challengeId);
     const destFilesDir = path.join(challengeDir, "files");
@@ -704,24 +2534,116 @@ server.post("/import", async (request, reply) => {
     insertChallenge(db, {
       id: challengeId,
       name,
+      slug: generateChallengeSlug(db, name, challengeId),
       runtime,
       runtime_version: runtimeVersion,
       db_type: dbType,
+      runtime_options_json: JSON.stringify(runtimeOptions),
+      sidecars_json: JSON.stringify(sidecars),
+      bot_json: JSON.stringify(bot),
+      flag_json: JSON.stringify(flag),
+      max_instances: maxInstances,
+      ...portOptions,
+      last_port: null,
+      bind_address: bindAddress,
+      resource_limits_json: JSON.stringify(resourceLimits),
+      hardening,
+      network_policy_json: JSON.stringify(networkPolicy),
+      healthcheck_json: JSON.stringify(healthcheck),
       created_at: now,
       updated_at: now,
       files_hash: filesHash,
       storage_path: challengeDir,
     });
-
-    await fs.rm(tempDir, { recursive: true, force: true });
+    context.setTarget({ challengeId });
+    return { id: challengeId };
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
     await fs.unlink(zipPath).catch(() => undefined);
+  }
+}
 
-    reply.send({ id: challengeId });
+server.post("/import", async (request, reply) => {
+  try {
+    const { zipPath, metadata } = await parseMultipart(request);
+    const job = submitJob("import", {}, { zip_path: zipPath, metadata });
+    reply.status(202).send(toJobResponse(job));
   } catch (error) {
     reply.status(400).send({ error: (error as Error).message });
   }
 });
 
+function reapExpiredInstances(): void {
+  for (const instance of listExpiredInstances(db, new Date().toISOString())) {
+    if (countActiveJobsByInstance(db, instance.id) > 0) {
+      continue;
+    }
+    submitJob(
+      "stop",
+      { challengeId: instance.challenge_id, instanceId: instance.id },
+      { instance_id: instance.id, reason: "expired" }
+    );
+    server.log.info(`期限切れのためインスタンスの停止を予約しました: ${instance.id}`);
+  }
+}
+
+setInterval(reapExpiredInstances, REAPER_INTERVAL_MS);
+
+let reconciling = false;
+
+async function runReconcile(): Promise<ReconcileReport | null> {
+  if (reconciling) {
+    return null;
+  }
+  reconciling = true;
+  try {
+    const report = await reconcileInstances(db, {
+      cwd: paths.workdirsDir,
+      isBusy: (project) => busyProjects.has(project),
+      resumeReadiness: (instance) => {
+        const challenge = getChallenge(db, instance.challenge_id);
+        if (challenge) {
+          startReadinessCheck(challenge, instance.id, instance.compose_project, instance.host_port);
+        }
+      },
+    });
+    for (const change of report.status_changes) {
+      server.log.info(
+        `インスタンスの状態を同期しました: ${change.instance_id} ${change.from} -> ${change.to}`
+      );
+    }
+    for (const project of report.orphans_removed) {
+      server.log.info(`不明なComposeプロジェクトを停止しました: ${project}`);
+    }
+    return report;
+  } finally {
+    reconciling = false;
+  }
+}
+
+server.post("/reconcile", async (request, reply) => {
+  try {
+    const report = await runReconcile();
+    if (!report) {
+      reply.status(409).send({ error: "同期処理を実行中です" });
+      return;
+    }
+    reply.send(report);
+  } catch (error) {
+    reply.status(500).send({ error: (error as Error).message });
+  }
+});
+
+function scheduleReconcile(): void {
+  runReconcile().catch((error: Error) => {
+    server.log.warn(`インスタンスの状態同期に失敗しました: ${error.message}`);
+  });
+}
+
+resumeJobs(jobRuntime);
+scheduleReconcile();
+setInterval(scheduleReconcile, RECONCILE_INTERVAL_MS);
+
 const port = Number(process.env.AGENT_PORT ?? "43765");
 const host = process.env.AGENT_HOST ?? "127.0.0.1";
 
@@ -731,4 +2653,14 @@ server.listen({ port, host }, (err, address) => {
     process.exit(1);
   }
   server.log.info(`Agent listening on ${address}`);
+  const settings = getSettings(db);
+  configureProxy(settings)
+    .then(() => {
+      if (settings.proxy_enabled === 1) {
+        server.log.info(`Reverse proxy listening on port ${settings.proxy_port}`);
+      }
+    })
+    .catch((error: Error) => {
+      server.log.warn(`リバースプロキシを起動できませんでした: ${error.message}`);
+    });
 });
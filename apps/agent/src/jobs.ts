@@ -0,0 +1,129 @@
+import crypto from "node:crypto";
+import type Database from "better-sqlite3";
+import type { Job, JobPhase, JobType } from "./types.js";
+import {
+  finishJob,
+  insertJob,
+  listJobsByStatus,
+  markJobRunning,
+  pruneJobs,
+  updateJobProgress,
+  updateJobTarget,
+} from "./db.js";
+
+const MAX_FINISHED_JOBS = 500;
+
+export type JobTarget = {
+  challengeId?: string | null;
+  instanceId?: string | null;
+};
+
+export type JobContext = {
+  job: Job;
+  payload: Record<string, unknown>;
+  progress: (phase: JobPhase, message?: string | null) => void;
+  setTarget: (target: JobTarget) => void;
+  // Runs after the queue slot is released; the job finishes when the task settles.
+  defer: (task: () => Promise<void>) => void;
+};
+
+export type JobHandlers = Record<JobType, (context: JobContext) => Promise<unknown>>;
+
+export type JobRuntime = {
+  db: Database.Database;
+  handlers: JobHandlers;
+  onFailed: (job: Job, message: string) => void;
+};
+
+const queues = new Map<string, Promise<void>>();
+
+function getQueueKey(job: Job): string {
+  return job.challenge_id ?? job.type;
+}
+
+export function createJob(
+  db: Database.Database,
+  type: JobType,
+  target: JobTarget,
+  payload: Record<string, unknown>
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: crypto.randomUUID(),
+    type,
+    status: "queued",
+    phase: "queued",
+    message: null,
+    error: null,
+    challenge_id: target.challengeId ?? null,
+    instance_id: target.instanceId ?? null,
+    payload_json: JSON.stringify(payload),
+    result_json: "null",
+    created_at: now,
+    started_at: null,
+    finished_at: null,
+    updated_at: now,
+  };
+  insertJob(db, job);
+  pruneJobs(db, MAX_FINISHED_JOBS);
+  return job;
+}
+
+async function runJob(runtime: JobRuntime, job: Job): Promise<void> {
+  const { db } = runtime;
+  const deferred: { task: (() => Promise<void>) | null } = { task: null };
+  const fail = (error: unknown) => {
+    const message = (error as Error).message || "ジョブが失敗しました";
+    finishJob(db, job.id, { status: "failed", error: message });
+    runtime.onFailed(job, message);
+  };
+
+  markJobRunning(db, job.id);
+  let result: unknown;
+  try {
+    result = await runtime.handlers[job.type]({
+      job,
+      payload: JSON.parse(job.payload_json) as Record<string, unknown>,
+      progress: (phase, message = null) => updateJobProgress(db, job.id, phase, message),
+      setTarget: (target) =>
+        updateJobTarget(db, job.id, target.challengeId ?? null, target.instanceId ?? null),
+      defer: (task) => {
+        deferred.task = task;
+      },
+    });
+  } catch (error) {
+    fail(error);
+    return;
+  }
+  if (!deferred.task) {
+    finishJob(db, job.id, { status: "succeeded", result });
+    return;
+  }
+  void deferred
+    .task()
+    .then(() => finishJob(db, job.id, { status: "succeeded", result }))
+    .catch(fail);
+}
+
+export function scheduleJob(runtime: JobRuntime, job: Job): void {
+  const key = getQueueKey(job);
+  const next = (queues.get(key) ?? Promise.resolve()).then(() => runJob(runtime, job));
+  queues.set(key, next);
+  void next.finally(() => {
+    if (queues.get(key) === next) {
+      queues.delete(key);
+    }
+  });
+}
+
+export function resumeJobs(runtime: JobRuntime): void {
+  for (const job of listJobsByStatus(runtime.db, "running")) {
+    finishJob(runtime.db, job.id, {
+      status: "failed",
+      error: "Agentの再起動により中断されました",
+    });
+  }
+  for (const job of listJobsByStatus(runtime.db, "queued")) {
+    scheduleJob(runtime, job);
+  }
+}
@@ -0,0 +1,127 @@
+import type { ResourceLimits } from "./types.js";
+
+export const DEFAULT_RESOURCE_LIMITS: ResourceLimits = {
+  cpus: 1,
+  mem_limit: "1g",
+  pids_limit: 512,
+};
+
+const ULIMIT_NAMES = ["nofile", "nproc", "core", "fsize", "memlock", "stack"];
+const MAX_ULIMIT = 1048576;
+
+export function parseResourceLimits(input: unknown): ResourceLimits {
+  if (typeof input === "undefined" || input === null) {
+    return {};
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("resource_limitsが不正です");
+  }
+  const raw = input as Record<string, unknown>;
+  const limits: ResourceLimits = {};
+  if (raw.cpus !== undefined && raw.cpus !== null && raw.cpus !== "") {
+    const cpus = Number(raw.cpus);
+    if (!Number.isFinite(cpus) || cpus <= 0 || cpus > 64) {
+      throw new Error("cpusは0より大きく64以下で指定してください");
+    }
+    limits.cpus = cpus;
+  }
+  if (raw.mem_limit !== undefined && raw.mem_limit !== null && raw.mem_limit !== "") {
+    const memLimit = String(raw.mem_limit).trim().toLowerCase();
+    if (!/^\d+(\.\d+)?[bkmg]?$/.test(memLimit)) {
+      throw new Error("mem_limitが不正です (例: 512m, 1g)");
+    }
+    limits.mem_limit = memLimit;
+  }
+  if (raw.pids_limit !== undefined && raw.pids_limit !== null && raw.pids_limit !== "") {
+    const pidsLimit = Number(raw.pids_limit);
+    if (!Number.isInteger(pidsLimit) || pidsLimit < 1 || pidsLimit > 100000) {
+      throw new Error("pids_limitは1〜100000で指定してください");
+    }
+    limits.pids_limit = pidsLimit;
+  }
+  if (raw.ulimits !== undefined && raw.ulimits !== null) {
+    if (typeof raw.ulimits !== "object" || Array.isArray(raw.ulimits)) {
+      throw new Error("ulimitsが不正です");
+    }
+    const ulimits: Record<string, number> = {};
+    for (const [name, value] of Object.entries(raw.ulimits as Record<string, unknown>)) {
+      if (value === "" || value === null || value === undefined) {
+        continue;
+      }
+      if (!ULIMIT_NAMES.includes(name)) {
+        throw new Error(`ulimitsに未対応の項目があります: ${name}`);
+      }
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < 0 || limit > MAX_ULIMIT) {
+        throw new Error(`ulimits.${name}は0〜${MAX_ULIMIT}で指定してください`);
+      }
+      ulimits[name] = limit;
+    }
+    if (Object.keys(ulimits).length > 0) {
+      limits.ulimits = ulimits;
+    }
+  }
+  return limits;
+}
+
+export function mergeResourceLimits(
+  defaults: ResourceLimits,
+  overrides: ResourceLimits
+): ResourceLimits {
+  const ulimits = { ...(defaults.ulimits ?? {}), ...(overrides.ulimits ?? {}) };
+  return {
+    ...defaults,
+    ...overrides,
+    ...(Object.keys(ulimits).length > 0 ? { ulimits } : {}),
+  };
+}
+
+export function buildResourceLimitLines(limits: ResourceLimits): string[] {
+  const lines: string[] = [];
+  if (limits.cpus !== undefined) {
+    lines.push(`    cpus: "${limits.cpus}"`);
+  }
+  if (limits.mem_limit !== undefined) {
+    lines.push(`    mem_limit: ${limits.mem_limit}`);
+  }
+  if (limits.pids_limit !== undefined) {
+    lines.push(`    pids_limit: ${limits.pids_limit}`);
+  }
+  const ulimits = Object.entries(limits.ulimits ?? {});
+  if (ulimits.length > 0) {
+    lines.push("    ulimits:");
+    for (const [name, value] of ulimits) {
+      lines.push(`      ${name}: ${value}`);
+    }
+  }
+  return lines;
+}
+
+export function applyResourceLimits(
+  service: Record<string, unknown>,
+  limits: ResourceLimits
+): Record<string, unknown> {
+  const next = { ...service };
+  if (limits.cpus !== undefined) {
+    next.cpus = String(limits.cpus);
+  }
+  if (limits.mem_limit !== undefined) {
+    next.mem_limit = limits.mem_limit;
+  }
+  if (limits.pids_limit !== undefined) {
+    next.pids_limit = limits.pids_limit;
+  }
+  if (limits.ulimits) {
+    const current =
+      next.ulimits && typeof next.ulimits === "object"
+        ? (next.ulimits as Record<string, unknown>)
+        : {};
+    next.ulimits = { ...current, ...limits.ulimits };
+  }
+  if (next.deploy && typeof next.deploy === "object") {
+    const deploy = { ...(next.deploy as Record<string, unknown>) };
+    delete deploy.resources;
+    next.deploy = deploy;
+  }
+  return next;
+}
@@ -0,0 +1,145 @@
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import { composeLogsToFile, composeServices } from "./docker.js";
+
+const MAX_SERVICE_LOG_BYTES = 5 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const SESSION_FILE = "session.json";
+const SESSION_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+const SERVICE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+export type LogSession = {
+  id: string;
+  stopped_at: string;
+  reason: string;
+  services: { service: string; size: number; truncated: boolean }[];
+};
+
+function getLogsDir(workdir: string): string {
+  return path.join(workdir, "logs");
+}
+
+function resolveSessionDir(workdir: string, sessionId: string): string {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    throw new Error("sessionが不正です");
+  }
+  return path.join(getLogsDir(workdir), sessionId);
+}
+
+async function truncateHead(filePath: string, maxBytes: number): Promise<boolean> {
+  const stat = await fs.stat(filePath);
+  if (stat.size <= maxBytes) {
+    return false;
+  }
+  const handle = await fs.open(filePath, "r");
+  const buffer = Buffer.alloc(maxBytes);
+  try {
+    await handle.read(buffer, 0, maxBytes, stat.size - maxBytes);
+  } finally {
+    await handle.close();
+  }
+  const newline = buffer.indexOf("\n");
+  await fs.writeFile(filePath, newline >= 0 ? buffer.subarray(newline + 1) : buffer);
+  return true;
+}
+
+async function getDirSize(dir: string): Promise<number> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    total += entry.isDirectory()
+      ? await getDirSize(entryPath)
+      : (await fs.stat(entryPath)).size;
+  }
+  return total;
+}
+
+async function pruneSessions(workdir: string): Promise<void> {
+  const logsDir = getLogsDir(workdir);
+  const sessionIds = (await fs.readdir(logsDir).catch(() => []))
+    .filter((name) => SESSION_ID_PATTERN.test(name))
+    .sort();
+  const sizes = await Promise.all(
+    sessionIds.map((sessionId) => getDirSize(path.join(logsDir, sessionId)))
+  );
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  for (let index = 0; index < sessionIds.length - 1 && total > MAX_ARCHIVE_BYTES; index += 1) {
+    await fs.rm(path.join(logsDir, sessionIds[index]), { recursive: true, force: true });
+    total -= sizes[index];
+  }
+}
+
+export async function archiveInstanceLogs(
+  workdir: string,
+  composeFile: string,
+  project: string,
+  reason: string
+): Promise<LogSession | null> {
+  const servicesResult = await composeServices(composeFile, project, workdir);
+  if (servicesResult.code !== 0) {
+    throw new Error(servicesResult.stderr || "サービス一覧の取得に失敗しました");
+  }
+  const services = servicesResult.stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((service) => SERVICE_PATTERN.test(service));
+  if (services.length === 0) {
+    return null;
+  }
+
+  const stoppedAt = new Date().toISOString();
+  const sessionId = stoppedAt.replace(/[:.]/g, "-");
+  const sessionDir = resolveSessionDir(workdir, sessionId);
+  await fs.mkdir(sessionDir, { recursive: true });
+
+  const session: LogSession = { id: sessionId, stopped_at: stoppedAt, reason, services: [] };
+  for (const service of services) {
+    const filePath = path.join(sessionDir, `${service}.log`);
+    await composeLogsToFile(composeFile, project, workdir, service, filePath);
+    const truncated = await truncateHead(filePath, MAX_SERVICE_LOG_BYTES);
+    const { size } = await fs.stat(filePath);
+    session.services.push({ service, size, truncated });
+  }
+  await fs.writeFile(path.join(sessionDir, SESSION_FILE), JSON.stringify(session, null, 2), "utf8");
+  await pruneSessions(workdir);
+  return session;
+}
+
+export async function listLogSessions(workdir: string): Promise<LogSession[]> {
+  const logsDir = getLogsDir(workdir);
+  const sessionIds = (await fs.readdir(logsDir).catch(() => []))
+    .filter((name) => SESSION_ID_PATTERN.test(name))
+    .sort()
+    .reverse();
+  const sessions: LogSession[] = [];
+  for (const sessionId of sessionIds) {
+    const raw = await fs
+      .readFile(path.join(logsDir, sessionId, SESSION_FILE), "utf8")
+      .catch(() => null);
+    if (raw) {
+      sessions.push(JSON.parse(raw) as LogSession);
+    }
+  }
+  return sessions;
+}
+
+export async function readLogSession(
+  workdir: string,
+  sessionId: string,
+  service: string
+): Promise<string | null> {
+  const sessionDir = resolveSessionDir(workdir, sessionId);
+  if (!SERVICE_PATTERN.test(service)) {
+    throw new Error("serviceが不正です");
+  }
+  const filePath = path.join(sessionDir, `${service}.log`);
+  const exists = await fs
+    .stat(filePath)
+    .then((stat) => stat.isFile())
+    .catch(() => false);
+  if (!exists) {
+    return null;
+  }
+  return await fs.readFile(filePath, "utf8");
+}
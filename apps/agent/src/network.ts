@@ -0,0 +1,185 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promises as fs } from "node:fs";
+import type { NetworkMode, NetworkPolicy } from "./types.js";
+
+export const NETWORK_MODES: NetworkMode[] = ["internal", "egress", "allowlist"];
+export const DEFAULT_NETWORK_POLICY: NetworkPolicy = { mode: "egress", allowlist: [] };
+
+const INTERNAL_NETWORK = "internal";
+const PUBLIC_NETWORK = "public";
+const GATEWAY_SERVICE = "gateway";
+const GATEWAY_PORT = 8080;
+const EGRESS_SERVICE = "egress-proxy";
+const EGRESS_PORT = 8888;
+const MAX_ALLOWLIST = 50;
+
+type ComposeDocument = {
+  services?: Record<string, Record<string, unknown>>;
+  networks?: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+export type PublishedTarget = {
+  service: string;
+  containerPort: number;
+  hostBinding: string;
+};
+
+export function parseNetworkPolicy(input: unknown): NetworkPolicy {
+  if (typeof input === "undefined" || input === null) {
+    return DEFAULT_NETWORK_POLICY;
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("network_policyが不正です");
+  }
+  const raw = input as Record<string, unknown>;
+  const mode = String(raw.mode ?? "egress").trim();
+  if (!(NETWORK_MODES as string[]).includes(mode)) {
+    throw new Error("network_policy.modeが不正です");
+  }
+  const allowlistInput = Array.isArray(raw.allowlist) ? raw.allowlist : [];
+  const allowlist: string[] = [];
+  for (const item of allowlistInput) {
+    const host = String(item).trim().toLowerCase();
+    if (!host) {
+      continue;
+    }
+    if (!/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host)) {
+      throw new Error(`network_policy.allowlistが不正です: ${host}`);
+    }
+    if (!allowlist.includes(host)) {
+      allowlist.push(host);
+    }
+  }
+  if (allowlist.length > MAX_ALLOWLIST) {
+    throw new Error(`network_policy.allowlistは${MAX_ALLOWLIST}件までです`);
+  }
+  if (mode === "allowlist" && allowlist.length === 0) {
+    throw new Error("network_policy.allowlistを1つ以上指定してください");
+  }
+  return { mode: mode as NetworkMode, allowlist: mode === "allowlist" ? allowlist : [] };
+}
+
+function buildFilter(allowlist: string[]): string {
+  return allowlist
+    .map((host) => {
+      const wildcard = host.startsWith("*.");
+      const escaped = (wildcard ? host.slice(2) : host).replace(/\./g, "\\.");
+      return wildcard ? `(^|\\.)${escaped}$` : `^${escaped}$`;
+    })
+    .join("\n");
+}
+
+function setEnvironment(
+  definition: Record<string, unknown>,
+  values: Record<string, string>
+): Record<string, unknown> {
+  const current = definition.environment;
+  if (Array.isArray(current)) {
+    const keys = Object.keys(values);
+    const kept = current.filter((entry) => !keys.includes(String(entry).split("=")[0]));
+    return {
+      ...definition,
+      environment: [...kept, ...Object.entries(values).map(([key, value]) => `${key}=${value}`)],
+    };
+  }
+  const mapping =
+    current && typeof current === "object" ? (current as Record<string, unknown>) : {};
+  return { ...definition, environment: { ...mapping, ...values } };
+}
+
+function buildHelperHardening(): Record<string, unknown> {
+  return {
+    cap_drop: ["ALL"],
+    security_opt: ["no-new-privileges:true"],
+    read_only: true,
+  };
+}
+
+export function applyNetworkPolicy(
+  doc: ComposeDocument,
+  policy: NetworkPolicy,
+  target: PublishedTarget
+): ComposeDocument {
+  if (policy.mode === "egress") {
+    return doc;
+  }
+  if (doc.networks && Object.keys(doc.networks).length > 0) {
+    throw new Error("ネットワークポリシー使用時はcomposeでnetworksを定義できません");
+  }
+  const serviceNames = Object.keys(doc.services ?? {});
+  for (const reserved of [GATEWAY_SERVICE, EGRESS_SERVICE]) {
+    if (serviceNames.includes(reserved)) {
+      throw new Error(`ネットワークポリシー使用時は${reserved}というサービス名を使用できません`);
+    }
+  }
+  const proxyEnv =
+    policy.mode === "allowlist"
+      ? {
+          HTTP_PROXY: `http://${EGRESS_SERVICE}:${EGRESS_PORT}`,
+          HTTPS_PROXY: `http://${EGRESS_SERVICE}:${EGRESS_PORT}`,
+          http_proxy: `http://${EGRESS_SERVICE}:${EGRESS_PORT}`,
+          https_proxy: `http://${EGRESS_SERVICE}:${EGRESS_PORT}`,
+          NO_PROXY: ["localhost", "127.0.0.1", ...serviceNames].join(","),
+          no_proxy: ["localhost", "127.0.0.1", ...serviceNames].join(","),
+        }
+      : null;
+
+  const services: Record<string, Record<string, unknown>> = {};
+  for (const [name, definition] of Object.entries(doc.services ?? {})) {
+    if (typeof definition.network_mode !== "undefined") {
+      throw new Error(`${name}: ネットワークポリシー使用時はnetwork_modeを指定できません`);
+    }
+    let next: Record<string, unknown> = { ...definition, networks: [INTERNAL_NETWORK] };
+    if (name === target.service) {
+      delete next.ports;
+    }
+    if (proxyEnv) {
+      next = setEnvironment(next, proxyEnv);
+    }
+    services[name] = next;
+  }
+
+  services[GATEWAY_SERVICE] = {
+    image: "alpine/socat:latest",
+    command: [
+      `tcp-listen:${GATEWAY_PORT},fork,reuseaddr`,
+      `tcp-connect:${target.service}:${target.containerPort}`,
+    ],
+    ports: [`${target.hostBinding}:${GATEWAY_PORT}`],
+    networks: [INTERNAL_NETWORK, PUBLIC_NETWORK],
+    depends_on: [target.service],
+    ...buildHelperHardening(),
+  };
+  if (policy.mode === "allowlist") {
+    services[EGRESS_SERVICE] = {
+      build: { context: "./egress-proxy" },
+      networks: [INTERNAL_NETWORK, PUBLIC_NETWORK],
+      ...buildHelperHardening(),
+    };
+  }
+
+  return {
+    ...doc,
+    services,
+    networks: {
+      [INTERNAL_NETWORK]: { internal: true },
+      [PUBLIC_NETWORK]: {},
+    },
+  };
+}
+
+function getTemplateDir(): string {
+  const currentDir = path.dirname(fileURLToPath(import.meta.url));
+  return path.resolve(currentDir, "..", "..", "..", "templates", "egress-proxy");
+}
+
+export async function writeNetworkFiles(composeDir: string, policy: NetworkPolicy): Promise<void> {
+  if (policy.mode !== "allowlist") {
+    return;
+  }
+  const proxyDir = path.join(composeDir, "egress-proxy");
+  await fs.cp(getTemplateDir(), proxyDir, { recursive: true });
+  await fs.writeFile(path.join(proxyDir, "filter"), `${buildFilter(policy.allowlist)}\n`, "utf8");
+}
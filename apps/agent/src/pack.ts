@@ -62,3 +62,28 @@ export async function assertDocrootIndex(rootDir: string): Promise<void> {
     throw new Error("docroot直下にindex.htmlまたはindex.phpが必要です");
   }
 }
+
+export async function assertNodeEntry(rootDir: string, entry: string): Promise<void> {
+  const hasEntry = await fs
+    .stat(path.join(rootDir, entry))
+    .then((stat) => stat.isFile())
+    .catch(() => false);
+  if (!hasEntry) {
+    throw new Error(`エントリスクリプト ${entry} が見つかりません`);
+  }
+}
+
+export async function assertPythonModule(rootDir: string, entrypoint: string): Promise<void> {
+  const modulePath = entrypoint.split(":")[0].split(".").join("/");
+  const candidates = [`${modulePath}.py`, path.join(modulePath, "__init__.py")];
+  for (const candidate of candidates) {
+    const exists = await fs
+      .stat(path.join(rootDir, candidate))
+      .then((stat) => stat.isFile())
+      .catch(() => false);
+    if (exists) {
+      return;
+    }
+  }
+  throw new Error(`エントリポイントのモジュール ${modulePath}.py が見つかりません`);
+}
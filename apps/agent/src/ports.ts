@@ -1,32 +1,96 @@
 import net from "node:net";
-import type { PortRange } from "./types.js";
+import type Database from "better-sqlite3";
+import type { PortPolicy, PortRange } from "./types.js";
+import { claimPortLease, leasePort } from "./db.js";
 
-export async function isPortAvailable(port: number): Promise<boolean> {
-  return await new Promise((resolve) => {
+export const PORT_POLICIES: PortPolicy[] = ["auto", "sticky", "pinned"];
+
+export function isPortPolicy(value: string): value is PortPolicy {
+  return (PORT_POLICIES as string[]).includes(value);
+}
+
+export type PortAllocation = {
+  ranges: PortRange[];
+  excluded: PortRange[];
+  preferred: number[];
+  reserved: Set<number>;
+  bindAddress: string;
+};
+
+function listen(port: number, bindAddress: string): Promise<boolean> {
+  return new Promise((resolve) => {
     const server = net.createServer();
     server.unref();
     server.on("error", () => resolve(false));
-    server.listen({ port, host: "127.0.0.1" }, () => {
+    server.listen(bindAddress ? { port, host: bindAddress } : { port }, () => {
       server.close(() => resolve(true));
     });
   });
 }
 
-export async function findAvailablePort(ranges: PortRange[], reserved: Set<number>): Promise<number> {
-  for (const range of ranges) {
-    for (let port = range.start; port <= range.end; port += 1) {
-      if (reserved.has(port)) {
-        continue;
-      }
-      if (await isPortAvailable(port)) {
-        return port;
-      }
+export async function isPortAvailable(port: number, bindAddress = ""): Promise<boolean> {
+  return await listen(port, bindAddress);
+}
+
+export async function isBindAddressUsable(bindAddress: string): Promise<boolean> {
+  return await listen(0, bindAddress);
+}
+
+export function formatHostBinding(bindAddress: string, port: number): string {
+  if (!bindAddress) {
+    return String(port);
+  }
+  return net.isIPv6(bindAddress) ? `[${bindAddress}]:${port}` : `${bindAddress}:${port}`;
+}
+
+export function getConnectHost(bindAddress: string): string {
+  if (!bindAddress || bindAddress === "0.0.0.0") {
+    return "127.0.0.1";
+  }
+  if (bindAddress === "::") {
+    return "::1";
+  }
+  return bindAddress;
+}
+
+export function getProbeHost(bindAddress: string): string {
+  const host = getConnectHost(bindAddress);
+  return net.isIPv6(host) ? `[${host}]` : host;
+}
+
+export async function allocatePort(
+  db: Database.Database,
+  instanceId: string,
+  allocation: PortAllocation
+): Promise<number> {
+  const { bindAddress } = allocation;
+  const skip = new Set([...allocation.reserved, ...expandRanges(allocation.excluded)]);
+  for (const port of allocation.preferred) {
+    if (skip.has(port)) {
+      continue;
+    }
+    if (leasePort(db, instanceId, port) && (await isPortAvailable(port, bindAddress))) {
+      return port;
+    }
+    skip.add(port);
+  }
+  for (;;) {
+    const port = claimPortLease(db, instanceId, allocation.ranges, skip);
+    if (port === null) {
+      throw new Error("空きポートが見つかりませんでした");
     }
+    if (await isPortAvailable(port, bindAddress)) {
+      return port;
+    }
+    skip.add(port);
   }
-  throw new Error("空きポートが見つかりませんでした");
 }
 
-function expandRanges(ranges: PortRange[]): number[] {
+export function isPortInRanges(port: number, ranges: PortRange[]): boolean {
+  return ranges.some((range) => port >= range.start && port <= range.end);
+}
+
+export function expandRanges(ranges: PortRange[]): number[] {
   const ports: number[] = [];
   for (const range of ranges) {
     for (let port = range.start; port <= range.end; port += 1) {
@@ -36,28 +100,18 @@ function expandRanges(ranges: PortRange[]): number[] {
   return ports;
 }
 
-export async function getPortSummary(
+export function getPortSummary(
   ranges: PortRange[],
-  concurrency = 40
-): Promise<{ total: number; free: number }> {
-  const ports = expandRanges(ranges);
-  const total = ports.length;
-  if (total === 0) {
-    return { total: 0, free: 0 };
-  }
-  let index = 0;
-  let free = 0;
-
-  const workers = Array.from({ length: Math.min(concurrency, total) }, async () => {
-    while (index < total) {
-      const current = ports[index];
-      index += 1;
-      if (await isPortAvailable(current)) {
-        free += 1;
-      }
-    }
-  });
-
-  await Promise.all(workers);
-  return { total, free };
+  excluded: PortRange[],
+  leased: Iterable<number>
+): { total: number; free: number; excluded: number } {
+  const inRange = expandRanges(ranges);
+  const ports = inRange.filter((port) => !isPortInRanges(port, excluded));
+  const leasedPorts = new Set(leased);
+  const used = ports.filter((port) => leasedPorts.has(port)).length;
+  return {
+    total: ports.length,
+    free: ports.length - used,
+    excluded: inRange.length - ports.length,
+  };
 }
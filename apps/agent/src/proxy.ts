@@ -0,0 +1,266 @@
+import http from "node:http";
+import net from "node:net";
+import type { Duplex } from "node:stream";
+import type { ProxyMode } from "./types.js";
+
+const PATH_PREFIX = "/c/";
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+export const PROXY_MODES: ProxyMode[] = ["host", "path"];
+
+export type ProxyTarget = {
+  host: string;
+  port: number;
+};
+
+export type ProxyLookup = ProxyTarget | { status: number; error: string };
+
+export type ProxyOptions = {
+  port: number;
+  bindAddress: string;
+  mode: ProxyMode;
+  getBaseHost: () => string;
+  lookup: (key: string) => ProxyLookup;
+};
+
+export type ProxyServer = {
+  close: () => Promise<void>;
+};
+
+type ProxyRoute = { key: string; path: string; prefix: string };
+
+type ProxyResolution =
+  | { route: ProxyRoute; target: ProxyTarget }
+  | { redirect: string }
+  | { status: number; error: string };
+
+export function isProxyMode(value: string): value is ProxyMode {
+  return (PROXY_MODES as string[]).includes(value);
+}
+
+export function parseBaseHost(host: string): string {
+  const raw = host.trim();
+  if (!raw) {
+    return "";
+  }
+  try {
+    return new URL(/^https?:\/\//.test(raw) ? raw : `http://${raw}`).hostname.toLowerCase();
+  } catch {
+    return raw.toLowerCase();
+  }
+}
+
+function parseRoute(
+  request: http.IncomingMessage,
+  mode: ProxyMode,
+  baseHost: string
+): ProxyRoute | { redirect: string } | null {
+  const url = request.url ?? "/";
+  const hostname = (request.headers.host ?? "")
+    .replace(/:\d+$/, "")
+    .replace(/^\[(.*)\]$/, "$1")
+    .toLowerCase();
+  if (mode === "path" || net.isIP(hostname) !== 0) {
+    const match = /^\/c\/([a-z0-9-]+)(.*)$/.exec(url);
+    if (!match) {
+      return null;
+    }
+    const [, key, rest] = match;
+    if (!rest.startsWith("/")) {
+      return { redirect: `${PATH_PREFIX}${key}/${rest}` };
+    }
+    return { key, path: rest, prefix: `${PATH_PREFIX}${key}` };
+  }
+  let key: string;
+  if (baseHost) {
+    key = hostname.endsWith(`.${baseHost}`) ? hostname.slice(0, -(baseHost.length + 1)) : "";
+  } else {
+    key = hostname.split(".")[0];
+  }
+  if (!/^[a-z0-9-]+$/.test(key)) {
+    return null;
+  }
+  return { key, path: url, prefix: "" };
+}
+
+function resolveRequest(request: http.IncomingMessage, options: ProxyOptions): ProxyResolution {
+  const route = parseRoute(request, options.mode, options.getBaseHost());
+  if (!route) {
+    return { status: 404, error: "ルートが見つかりません" };
+  }
+  if ("redirect" in route) {
+    return route;
+  }
+  const target = options.lookup(route.key);
+  if ("error" in target) {
+    return target;
+  }
+  return { route, target };
+}
+
+function stripHopByHopHeaders(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const listed = String(headers.connection ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name !== "");
+  const next: http.OutgoingHttpHeaders = { ...headers };
+  for (const name of [...HOP_BY_HOP_HEADERS, ...listed]) {
+    delete next[name];
+  }
+  return next;
+}
+
+function buildForwardHeaders(
+  request: http.IncomingMessage,
+  prefix: string,
+  upgrade: boolean
+): http.OutgoingHttpHeaders {
+  const remote = request.socket.remoteAddress ?? "";
+  const forwardedFor = request.headers["x-forwarded-for"];
+  const headers: http.OutgoingHttpHeaders = {
+    ...stripHopByHopHeaders(request.headers),
+    "x-forwarded-for": forwardedFor ? `${forwardedFor}, ${remote}` : remote,
+    "x-forwarded-host": request.headers.host,
+    "x-forwarded-proto": "http",
+  };
+  if (prefix) {
+    headers["x-forwarded-prefix"] = prefix;
+  } else {
+    delete headers["x-forwarded-prefix"];
+  }
+  if (upgrade) {
+    headers.connection = "Upgrade";
+    headers.upgrade = request.headers.upgrade;
+  } else if (request.headers["transfer-encoding"]) {
+    headers["transfer-encoding"] = "chunked";
+  }
+  return headers;
+}
+
+function sendError(response: http.ServerResponse, status: number, message: string): void {
+  response.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+  response.end(message);
+}
+
+function handleRequest(
+  options: ProxyOptions,
+  request: http.IncomingMessage,
+  response: http.ServerResponse
+): void {
+  const resolved = resolveRequest(request, options);
+  if ("redirect" in resolved) {
+    response.writeHead(302, { Location: resolved.redirect });
+    response.end();
+    return;
+  }
+  if ("error" in resolved) {
+    sendError(response, resolved.status, resolved.error);
+    return;
+  }
+  const { route, target } = resolved;
+  const upstream = http.request(
+    {
+      host: target.host,
+      port: target.port,
+      method: request.method,
+      path: route.path,
+      headers: buildForwardHeaders(request, route.prefix, false),
+    },
+    (upstreamResponse) => {
+      const headers = stripHopByHopHeaders(upstreamResponse.headers);
+      const location = upstreamResponse.headers.location;
+      if (route.prefix && location?.startsWith("/") && !location.startsWith("//")) {
+        headers.location = `${route.prefix}${location}`;
+      }
+      response.writeHead(upstreamResponse.statusCode ?? 502, headers);
+      upstreamResponse.pipe(response);
+    }
+  );
+  upstream.on("error", () => {
+    if (response.headersSent) {
+      response.destroy();
+      return;
+    }
+    sendError(response, 502, "インスタンスに接続できません");
+  });
+  request.pipe(upstream);
+}
+
+function handleUpgrade(
+  options: ProxyOptions,
+  tunnels: Set<Duplex>,
+  request: http.IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+): void {
+  const resolved = resolveRequest(request, options);
+  if (!("target" in resolved)) {
+    const status = "status" in resolved ? resolved.status : 404;
+    const reason = http.STATUS_CODES[status] ?? "";
+    socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    return;
+  }
+  const { route, target } = resolved;
+  const upstream = net.connect(target.port, target.host, () => {
+    const lines = [`${request.method} ${route.path} HTTP/${request.httpVersion}`];
+    for (const [name, value] of Object.entries(buildForwardHeaders(request, route.prefix, true))) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) {
+          lines.push(`${name}: ${item}`);
+        }
+      }
+    }
+    upstream.write(`${lines.join("\r\n")}\r\n\r\n`);
+    if (head.length > 0) {
+      upstream.write(head);
+    }
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  tunnels.add(socket);
+  socket.on("close", () => {
+    tunnels.delete(socket);
+    upstream.destroy();
+  });
+  socket.on("error", () => upstream.destroy());
+  upstream.on("error", () => socket.destroy());
+}
+
+export async function startProxyServer(options: ProxyOptions): Promise<ProxyServer> {
+  const tunnels = new Set<Duplex>();
+  const server = http.createServer((request, response) =>
+    handleRequest(options, request, response)
+  );
+  server.on("upgrade", (request: http.IncomingMessage, socket: Duplex, head: Buffer) =>
+    handleUpgrade(options, tunnels, request, socket, head)
+  );
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    const address = options.bindAddress
+      ? { port: options.port, host: options.bindAddress }
+      : { port: options.port };
+    server.listen(address, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return {
+    close: async () => {
+      for (const socket of tunnels) {
+        socket.destroy();
+      }
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import type Database from "better-sqlite3";
+import type { Instance } from "./types.js";
+import { leasePort, listInstances, updateInstancePort, updateInstanceStatus } from "./db.js";
+import { composeDownProject, listComposeContainers } from "./docker.js";
+
+const PROJECT_PREFIX = "ctfwl_";
+
+type ProjectContainer = {
+  service: string;
+  state: string;
+  exitCode: number | null;
+  hostPorts: number[];
+};
+
+export type ReconcileReport = {
+  checked_at: string;
+  instances: number;
+  projects: number;
+  status_changes: {
+    instance_id: string;
+    compose_project: string;
+    from: Instance["status"];
+    to: Instance["status"];
+    reason: string | null;
+  }[];
+  port_changes: { instance_id: string; from: number; to: number }[];
+  orphans_removed: string[];
+  errors: string[];
+};
+
+export type ReconcileHooks = {
+  cwd: string;
+  isBusy: (project: string) => boolean;
+  resumeReadiness: (instance: Instance) => void;
+};
+
+function parseLabels(raw: string): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const entry of raw.split(",")) {
+    const index = entry.indexOf("=");
+    if (index > 0) {
+      labels[entry.slice(0, index)] = entry.slice(index + 1);
+    }
+  }
+  return labels;
+}
+
+function parseHostPorts(raw: string): number[] {
+  const ports = new Set<number>();
+  for (const match of raw.matchAll(/:(\d+)->\d+\/(tcp|udp)/g)) {
+    ports.add(Number(match[1]));
+  }
+  return [...ports];
+}
+
+async function collectProjects(cwd: string): Promise<Map<string, ProjectContainer[]>> {
+  const result = await listComposeContainers(cwd);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || "コンテナ一覧の取得に失敗しました");
+  }
+  const projects = new Map<string, ProjectContainer[]>();
+  for (const line of result.stdout.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    const row = JSON.parse(line) as {
+      Labels?: string;
+      State?: string;
+      Status?: string;
+      Ports?: string;
+    };
+    const labels = parseLabels(row.Labels ?? "");
+    const project = labels["com.docker.compose.project"];
+    if (!project?.startsWith(PROJECT_PREFIX)) {
+      continue;
+    }
+    const exitMatch = /Exited \((-?\d+)\)/.exec(row.Status ?? "");
+    const containers = projects.get(project) ?? [];
+    containers.push({
+      service: labels["com.docker.compose.service"] ?? "unknown",
+      state: row.State ?? "unknown",
+      exitCode: exitMatch ? Number(exitMatch[1]) : null,
+      hostPorts: parseHostPorts(row.Ports ?? ""),
+    });
+    projects.set(project, containers);
+  }
+  return projects;
+}
+
+function resolveStatus(
+  instance: Instance,
+  containers: ProjectContainer[]
+): { status: Instance["status"]; reason: string | null } | null {
+  const active = instance.status === "running" || instance.status === "starting";
+  const running = containers.filter((container) => container.state === "running");
+  const failed = containers.filter(
+    (container) =>
+      container.state === "dead" ||
+      container.state === "restarting" ||
+      (container.state === "exited" && container.exitCode !== 0)
+  );
+  if (active) {
+    if (containers.length === 0) {
+      return { status: "stopped", reason: "コンテナが存在しません" };
+    }
+    if (failed.length > 0) {
+      const services = failed.map((container) => container.service).join(", ");
+      return { status: "error", reason: `${services}が停止しています` };
+    }
+    if (running.length === 0) {
+      return { status: "stopped", reason: "コンテナが停止しています" };
+    }
+    return null;
+  }
+  if (instance.status === "stopped" && running.length > 0 && failed.length === 0) {
+    return { status: "running", reason: null };
+  }
+  return null;
+}
+
+export async function reconcileInstances(
+  db: Database.Database,
+  hooks: ReconcileHooks
+): Promise<ReconcileReport> {
+  const projects = await collectProjects(hooks.cwd);
+  const instances = listInstances(db);
+  const report: ReconcileReport = {
+    checked_at: new Date().toISOString(),
+    instances: instances.length,
+    projects: projects.size,
+    status_changes: [],
+    port_changes: [],
+    orphans_removed: [],
+    errors: [],
+  };
+
+  for (const instance of instances) {
+    if (hooks.isBusy(instance.compose_project)) {
+      continue;
+    }
+    const containers = projects.get(instance.compose_project) ?? [];
+    const next = resolveStatus(instance, containers);
+    let status = instance.status;
+    if (next) {
+      updateInstanceStatus(db, instance.id, next.status, next.reason);
+      report.status_changes.push({
+        instance_id: instance.id,
+        compose_project: instance.compose_project,
+        from: instance.status,
+        to: next.status,
+        reason: next.reason,
+      });
+      status = next.status;
+    } else if (instance.status === "starting") {
+      hooks.resumeReadiness(instance);
+    }
+    if (status !== "running" && status !== "starting") {
+      continue;
+    }
+    const hostPorts = containers.flatMap((container) => container.hostPorts);
+    if (hostPorts.length > 0 && !hostPorts.includes(instance.host_port)) {
+      if (!leasePort(db, instance.id, hostPorts[0])) {
+        report.errors.push(
+          `${instance.compose_project}: ポート${hostPorts[0]}は別のインスタンスに割り当て済みです`
+        );
+        continue;
+      }
+      updateInstancePort(db, instance.id, hostPorts[0]);
+      report.port_changes.push({
+        instance_id: instance.id,
+        from: instance.host_port,
+        to: hostPorts[0],
+      });
+    }
+  }
+
+  const knownProjects = new Set(instances.map((instance) => instance.compose_project));
+  for (const project of projects.keys()) {
+    if (knownProjects.has(project) || hooks.isBusy(project)) {
+      continue;
+    }
+    const result = await composeDownProject(project, hooks.cwd);
+    if (result.code === 0) {
+      report.orphans_removed.push(project);
+    } else {
+      report.errors.push(`${project}: ${result.stderr.trim() || "停止に失敗しました"}`);
+    }
+  }
+
+  return report;
+}
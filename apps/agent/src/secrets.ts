@@ -0,0 +1,85 @@
+import path from "node:path";
+import { promises as fs } from "node:fs";
+import type { Settings } from "./types.js";
+
+export type MysqlSecrets = {
+  mysql_root_password: string;
+  mysql_database: string;
+  mysql_user: string;
+  mysql_password: string;
+};
+
+export type PostgresSecrets = {
+  postgres_database: string;
+  postgres_user: string;
+  postgres_password: string;
+};
+
+export type InstanceSecrets = MysqlSecrets & PostgresSecrets;
+
+async function readSecretsFile(workdir: string): Promise<Partial<InstanceSecrets> | null> {
+  const secretPath = path.join(workdir, "secrets.json");
+  const exists = await fs
+    .stat(secretPath)
+    .then(() => true)
+    .catch(() => false);
+  if (!exists) {
+    return null;
+  }
+  const content = await fs.readFile(secretPath, "utf8");
+  return JSON.parse(content) as Partial<InstanceSecrets>;
+}
+
+async function writeSecrets(workdir: string, secrets: Partial<InstanceSecrets>): Promise<void> {
+  const current = (await readSecretsFile(workdir)) ?? {};
+  await fs.mkdir(workdir, { recursive: true });
+  await fs.writeFile(
+    path.join(workdir, "secrets.json"),
+    JSON.stringify({ ...current, ...secrets }, null, 2),
+    "utf8"
+  );
+}
+
+function getMysqlSettings(settings: Settings): MysqlSecrets {
+  return {
+    mysql_root_password: settings.mysql_root_password,
+    mysql_database: settings.mysql_database,
+    mysql_user: settings.mysql_user,
+    mysql_password:
+      settings.mysql_user === "root" ? settings.mysql_root_password : settings.mysql_password,
+  };
+}
+
+export async function loadMysqlSecrets(workdir: string, settings: Settings): Promise<MysqlSecrets> {
+  const base = getMysqlSettings(settings);
+  const fromFile = await readSecretsFile(workdir);
+  const mysqlRootPassword = fromFile?.mysql_root_password ?? base.mysql_root_password;
+  const mysqlDatabase = fromFile?.mysql_database ?? base.mysql_database;
+  const mysqlUser = fromFile?.mysql_user ?? base.mysql_user;
+  let mysqlPassword = fromFile?.mysql_password ?? base.mysql_password;
+  if (mysqlUser === "root") {
+    mysqlPassword = mysqlRootPassword;
+  }
+  const secrets = {
+    mysql_root_password: mysqlRootPassword,
+    mysql_database: mysqlDatabase,
+    mysql_user: mysqlUser,
+    mysql_password: mysqlPassword,
+  };
+  await writeSecrets(workdir, secrets);
+  return secrets;
+}
+
+export async function loadPostgresSecrets(
+  workdir: string,
+  settings: Settings
+): Promise<PostgresSecrets> {
+  const fromFile = await readSecretsFile(workdir);
+  const secrets = {
+    postgres_database: fromFile?.postgres_database ?? settings.postgres_database,
+    postgres_user: fromFile?.postgres_user ?? settings.postgres_user,
+    postgres_password: fromFile?.postgres_password ?? settings.postgres_password,
+  };
+  await writeSecrets(workdir, secrets);
+  return secrets;
+}
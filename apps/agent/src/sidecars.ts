@@ -0,0 +1,104 @@
+import type { BotConfig, SidecarType } from "./types.js";
+
+type SidecarDefinition = {
+  service: string;
+  image: string;
+  command?: string;
+  appEnv: Record<string, string>;
+};
+
+const SIDECAR_CATALOG: Record<SidecarType, SidecarDefinition> = {
+  redis: {
+    service: "redis",
+    image: "redis:7-alpine",
+    command: "redis-server --save \"\" --appendonly no",
+    appEnv: {
+      REDIS_HOST: "redis",
+      REDIS_PORT: "6379",
+      REDIS_URL: "redis://redis:6379/0",
+    },
+  },
+  memcached: {
+    service: "memcached",
+    image: "memcached:1.6-alpine",
+    appEnv: {
+      MEMCACHED_HOST: "memcached",
+      MEMCACHED_PORT: "11211",
+    },
+  },
+  mongo: {
+    service: "mongo",
+    image: "mongo:7",
+    appEnv: {
+      MONGO_HOST: "mongo",
+      MONGO_PORT: "27017",
+      MONGO_URL: "mongodb://mongo:27017/ctf",
+    },
+  },
+  mail: {
+    service: "mail",
+    image: "axllent/mailpit:latest",
+    appEnv: {
+      SMTP_HOST: "mail",
+      SMTP_PORT: "1025",
+      MAIL_WEB_URL: "http://mail:8025/",
+    },
+  },
+};
+
+export const SIDECAR_TYPES = Object.keys(SIDECAR_CATALOG) as SidecarType[];
+
+export function isSidecarType(value: string): value is SidecarType {
+  return (SIDECAR_TYPES as string[]).includes(value);
+}
+
+export function getSidecarServiceNames(sidecars: SidecarType[]): string[] {
+  return sidecars.map((sidecar) => SIDECAR_CATALOG[sidecar].service);
+}
+
+export function buildSidecarAppEnv(sidecars: SidecarType[]): string[] {
+  return sidecars.flatMap((sidecar) =>
+    Object.entries(SIDECAR_CATALOG[sidecar].appEnv).map(
+      ([key, value]) => `      ${key}: "${value}"`
+    )
+  );
+}
+
+export function buildSidecarServices(sidecars: SidecarType[]): string {
+  return sidecars
+    .map((sidecar) => {
+      const definition = SIDECAR_CATALOG[sidecar];
+      const lines = [`  ${definition.service}:`, `    image: ${definition.image}`];
+      if (definition.command) {
+        lines.push(`    command: ${JSON.stringify(definition.command)}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+export const BOT_SERVICE = "bot";
+
+export function yamlString(value: string): string {
+  return JSON.stringify(value.split("$").join("$$"));
+}
+
+export function buildBotAppEnv(): string[] {
+  return [`      BOT_URL: "http://${BOT_SERVICE}:3000/visit"`];
+}
+
+export function buildBotService(bot: BotConfig, appContainerPort: number): string {
+  return [
+    `  ${BOT_SERVICE}:`,
+    "    build:",
+    "      context: ./bot",
+    "    environment:",
+    `      BOT_ALLOWED_ORIGIN: ${yamlString(`http://app:${appContainerPort}`)}`,
+    `      BOT_COOKIE_NAME: ${yamlString(bot.cookie_name)}`,
+    `      BOT_COOKIE_VALUE: ${yamlString(bot.cookie_value)}`,
+    `      BOT_COOKIE_DOMAIN: ${yamlString(bot.cookie_domain)}`,
+    `      BOT_VISIT_TIMEOUT_MS: "${bot.visit_timeout_ms}"`,
+    "    depends_on:",
+    "      - app",
+  ].join("\n");
+}
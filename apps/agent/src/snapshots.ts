@@ -0,0 +1,188 @@
+import path from "node:path";
+import crypto from "node:crypto";
+import { createWriteStream, promises as fs } from "node:fs";
+import { pipeline } from "node:stream/promises";
+import archiver from "archiver";
+import type { DbType } from "./types.js";
+import { composeExecFromFile, composeExecToFile } from "./docker.js";
+import { extractZipSafe } from "./zip.js";
+
+const SNAPSHOT_FILE = "snapshot.json";
+const DUMP_FILE = "db.sql";
+const PACK_ARCHIVE = "pack.zip";
+const SNAPSHOT_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z(?:-[0-9a-f]{8})?$/;
+const MAX_SNAPSHOT_NAME = 64;
+
+export type Snapshot = {
+  id: string;
+  name: string;
+  created_at: string;
+  db_type: DbType;
+  has_database: boolean;
+  size: number;
+};
+
+const DUMP_SCRIPTS: Record<Exclude<DbType, "none">, string> = {
+  mysql:
+    'MYSQL_PWD="$MYSQL_ROOT_PASSWORD" exec mysqldump -uroot --single-transaction --routines --triggers --add-drop-database --databases "$MYSQL_DATABASE"',
+  postgres: 'exec pg_dump -U "$POSTGRES_USER" -d "$POSTGRES_DB" --clean --if-exists',
+};
+
+const RESTORE_SCRIPTS: Record<Exclude<DbType, "none">, string> = {
+  mysql: 'MYSQL_PWD="$MYSQL_ROOT_PASSWORD" exec mysql -uroot',
+  postgres: 'exec psql -v ON_ERROR_STOP=1 -q -U "$POSTGRES_USER" -d "$POSTGRES_DB"',
+};
+
+function getSnapshotsDir(workdir: string): string {
+  return path.join(workdir, "snapshots");
+}
+
+function resolveSnapshotDir(workdir: string, snapshotId: string): string {
+  if (!SNAPSHOT_ID_PATTERN.test(snapshotId)) {
+    throw new Error("snapshotが不正です");
+  }
+  return path.join(getSnapshotsDir(workdir), snapshotId);
+}
+
+async function getDirSize(dir: string): Promise<number> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  let total = 0;
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirSize(entryPath);
+    } else if (entry.isFile()) {
+      total += (await fs.stat(entryPath)).size;
+    }
+  }
+  return total;
+}
+
+async function archivePack(packDir: string, archivePath: string): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  const written = pipeline(archive, createWriteStream(archivePath, { flags: "wx" }));
+  archive.directory(packDir, false, (entry) => (entry.stats?.isSymbolicLink() ? false : entry));
+  await archive.finalize();
+  await written;
+}
+
+export function parseSnapshotName(input: unknown): string {
+  const name = String(input ?? "").trim();
+  if (!name) {
+    throw new Error("スナップショット名を入力してください");
+  }
+  if (name.length > MAX_SNAPSHOT_NAME || /[\x00-\x1f\x7f]/.test(name)) {
+    throw new Error(`スナップショット名は${MAX_SNAPSHOT_NAME}文字以内で指定してください`);
+  }
+  return name;
+}
+
+export async function createSnapshot(
+  workdir: string,
+  composeFile: string,
+  project: string,
+  dbType: DbType,
+  name: string
+): Promise<Snapshot> {
+  const createdAt = new Date().toISOString();
+  const snapshotId = `${createdAt.replace(/[:.]/g, "-")}-${crypto.randomBytes(4).toString("hex")}`;
+  const snapshotDir = resolveSnapshotDir(workdir, snapshotId);
+  await fs.mkdir(getSnapshotsDir(workdir), { recursive: true });
+  await fs.mkdir(snapshotDir);
+  try {
+    await archivePack(path.join(workdir, "pack"), path.join(snapshotDir, PACK_ARCHIVE));
+    if (dbType !== "none") {
+      const result = await composeExecToFile(
+        composeFile,
+        project,
+        workdir,
+        "db",
+        DUMP_SCRIPTS[dbType],
+        path.join(snapshotDir, DUMP_FILE)
+      );
+      if (result.code !== 0) {
+        throw new Error(result.stderr || "DBのダンプに失敗しました");
+      }
+    }
+    const snapshot: Snapshot = {
+      id: snapshotId,
+      name,
+      created_at: createdAt,
+      db_type: dbType,
+      has_database: dbType !== "none",
+      size: await getDirSize(snapshotDir),
+    };
+    await fs.writeFile(
+      path.join(snapshotDir, SNAPSHOT_FILE),
+      JSON.stringify(snapshot, null, 2),
+      "utf8"
+    );
+    return snapshot;
+  } catch (error) {
+    await fs.rm(snapshotDir, { recursive: true, force: true }).catch(() => undefined);
+    throw error;
+  }
+}
+
+export async function listSnapshots(workdir: string): Promise<Snapshot[]> {
+  const snapshotsDir = getSnapshotsDir(workdir);
+  const snapshotIds = (await fs.readdir(snapshotsDir).catch(() => []))
+    .filter((name) => SNAPSHOT_ID_PATTERN.test(name))
+    .sort()
+    .reverse();
+  const snapshots: Snapshot[] = [];
+  for (const snapshotId of snapshotIds) {
+    const snapshot = await getSnapshot(workdir, snapshotId);
+    if (snapshot) {
+      snapshots.push(snapshot);
+    }
+  }
+  return snapshots;
+}
+
+export async function getSnapshot(workdir: string, snapshotId: string): Promise<Snapshot | null> {
+  const raw = await fs
+    .readFile(path.join(resolveSnapshotDir(workdir, snapshotId), SNAPSHOT_FILE), "utf8")
+    .catch(() => null);
+  return raw ? (JSON.parse(raw) as Snapshot) : null;
+}
+
+export async function restoreSnapshotPack(workdir: string, snapshot: Snapshot): Promise<void> {
+  const snapshotDir = resolveSnapshotDir(workdir, snapshot.id);
+  const archivePath = path.join(snapshotDir, PACK_ARCHIVE);
+  const hasArchive = await fs
+    .stat(archivePath)
+    .then((stat) => stat.isFile())
+    .catch(() => false);
+  if (hasArchive) {
+    await extractZipSafe(archivePath, path.join(workdir, "pack"));
+    return;
+  }
+  await fs.cp(path.join(snapshotDir, "pack"), path.join(workdir, "pack"), { recursive: true });
+}
+
+export async function restoreSnapshotDatabase(
+  workdir: string,
+  composeFile: string,
+  project: string,
+  snapshot: Snapshot
+): Promise<void> {
+  if (!snapshot.has_database || snapshot.db_type === "none") {
+    return;
+  }
+  const result = await composeExecFromFile(
+    composeFile,
+    project,
+    workdir,
+    "db",
+    RESTORE_SCRIPTS[snapshot.db_type],
+    path.join(resolveSnapshotDir(workdir, snapshot.id), DUMP_FILE)
+  );
+  if (result.code !== 0) {
+    throw new Error(result.stderr || "DBのリストアに失敗しました");
+  }
+}
+
+export async function deleteSnapshot(workdir: string, snapshotId: string): Promise<void> {
+  await fs.rm(resolveSnapshotDir(workdir, snapshotId), { recursive: true, force: true });
+}
@@ -1,18 +1,91 @@
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { promises as fs } from "node:fs";
-import type { DbType, Runtime } from "./types.js";
+import YAML from "yaml";
+import type {
+  BotConfig,
+  DbType,
+  FlagConfig,
+  HardeningProfile,
+  NetworkPolicy,
+  ResourceLimits,
+  Runtime,
+  RuntimeOptions,
+  SidecarType,
+} from "./types.js";
+import { writeCustomCompose } from "./custom.js";
+import { buildResourceLimitLines } from "./limits.js";
+import { buildHardeningEnv, buildHardeningLines } from "./hardening.js";
+import { applyNetworkPolicy, writeNetworkFiles } from "./network.js";
+import {
+  buildBotAppEnv,
+  buildBotService,
+  buildSidecarAppEnv,
+  buildSidecarServices,
+  getSidecarServiceNames,
+  yamlString,
+} from "./sidecars.js";
 
 export type ComposeParams = {
   runtime: Runtime;
   runtimeVersion: string;
-  hostPort: number;
+  composeProject: string;
+  hostBinding: string;
+  appContainerPort: number;
   dbType: DbType;
   dbRootPassword: string | null;
   dbDatabase: string | null;
   dbUser: string | null;
   dbPassword: string | null;
   dbInitExists: boolean;
+  dbInitShExists: boolean;
+  runtimeOptions: RuntimeOptions;
+  sidecars: SidecarType[];
+  bot: BotConfig | null;
+  flag: { value: string; config: FlagConfig } | null;
+  resourceLimits: ResourceLimits;
+  hardening: HardeningProfile;
+  networkPolicy: NetworkPolicy;
+};
+
+export const DEFAULT_NODE_ENTRY = "index.js";
+export const DEFAULT_PYTHON_ENTRYPOINT = "app:app";
+export const DEFAULT_PYTHON_SERVER = "gunicorn";
+export const DEFAULT_PYTHON_WORKERS = 1;
+
+const PHP_BUNDLED_EXTENSIONS = new Set([
+  "ctype",
+  "curl",
+  "dom",
+  "fileinfo",
+  "filter",
+  "hash",
+  "iconv",
+  "json",
+  "mbstring",
+  "openssl",
+  "pdo",
+  "pdo_sqlite",
+  "posix",
+  "readline",
+  "session",
+  "simplexml",
+  "sodium",
+  "sqlite3",
+  "tokenizer",
+  "xml",
+  "xmlreader",
+  "xmlwriter",
+  "zlib",
+]);
+
+const PHP_EXTENSION_PACKAGES: Record<string, string[]> = {
+  gd: ["libpng-dev", "libjpeg-dev", "libfreetype6-dev"],
+  intl: ["libicu-dev"],
+  pdo_pgsql: ["libpq-dev"],
+  pgsql: ["libpq-dev"],
+  xsl: ["libxslt1-dev"],
+  zip: ["libzip-dev"],
 };
 
 function getRepoRoot(): string {
@@ -32,75 +105,258 @@ function render(template: string, values: Record<string, string>): string {
   return output;
 }
 
+async function isFile(filePath: string): Promise<boolean> {
+  return await fs
+    .stat(filePath)
+    .then((stat) => stat.isFile())
+    .catch(() => false);
+}
+
+async function buildDependencySetup(runtime: Runtime, packDir: string): Promise<string> {
+  if (runtime === "flask" && (await isFile(path.join(packDir, "requirements.txt")))) {
+    return [
+      "COPY pack/requirements.txt /tmp/requirements.txt",
+      "RUN pip install --no-cache-dir -r /tmp/requirements.txt && rm /tmp/requirements.txt",
+    ].join("\n");
+  }
+  if (runtime === "node" && (await isFile(path.join(packDir, "package.json")))) {
+    const hasLock = await isFile(path.join(packDir, "package-lock.json"));
+    return [
+      `COPY pack/package.json${hasLock ? " pack/package-lock.json" : ""} /tmp/deps/`,
+      `RUN cd /tmp/deps && ${hasLock ? "npm ci" : "npm install"} && mv node_modules /node_modules && rm -rf /tmp/deps /root/.npm`,
+    ].join("\n");
+  }
+  return "";
+}
+
+function buildPythonCommand(options: RuntimeOptions): string {
+  const entrypoint = options.python_entrypoint ?? DEFAULT_PYTHON_ENTRYPOINT;
+  const workers = options.python_workers ?? DEFAULT_PYTHON_WORKERS;
+  const args = options.python_args ? ` ${options.python_args}` : "";
+  if ((options.python_server ?? DEFAULT_PYTHON_SERVER) === "uvicorn") {
+    const factory = entrypoint.endsWith("()");
+    const target = factory ? entrypoint.slice(0, -2) : entrypoint;
+    return `uvicorn --host 0.0.0.0 --port 8000 --workers ${workers}${factory ? " --factory" : ""}${args} ${target}`;
+  }
+  return `gunicorn -b 0.0.0.0:8000 -w ${workers}${args} '${entrypoint}'`;
+}
+
+function buildPhpSetup(options: RuntimeOptions, dbType: DbType): string {
+  const dbExtensions = dbType === "postgres" ? ["pgsql", "pdo_pgsql"] : [];
+  const extensions = ["mysqli", ...dbExtensions, ...(options.php_extensions ?? [])].filter(
+    (ext, index, list) => list.indexOf(ext) === index && !PHP_BUNDLED_EXTENSIONS.has(ext)
+  );
+  const packages = [...new Set(extensions.flatMap((ext) => PHP_EXTENSION_PACKAGES[ext] ?? []))];
+  const lines: string[] = [];
+  if (packages.length > 0) {
+    lines.push(
+      `RUN apt-get update && apt-get install -y --no-install-recommends ${packages.join(" ")} && rm -rf /var/lib/apt/lists/*`
+    );
+  }
+  if (extensions.includes("gd")) {
+    lines.push("RUN docker-php-ext-configure gd --with-jpeg --with-freetype");
+  }
+  lines.push(`RUN docker-php-ext-install ${extensions.join(" ")}`);
+  const modules = options.php_apache_modules ?? [];
+  if (modules.length > 0) {
+    lines.push(`RUN a2enmod ${modules.join(" ")}`);
+  }
+  return lines.join("\n");
+}
+
 export async function writeComposeFiles(
   composeDir: string,
   params: ComposeParams
 ): Promise<void> {
   await fs.mkdir(composeDir, { recursive: true });
+  const packDir = path.join(composeDir, "..", "pack");
+  if (params.runtime === "custom" && params.runtimeOptions.custom_mode === "compose") {
+    await writeCustomCompose(
+      composeDir,
+      packDir,
+      params.hostBinding,
+      params.composeProject,
+      params.resourceLimits,
+      params.hardening,
+      params.networkPolicy
+    );
+    await writeNetworkFiles(composeDir, params.networkPolicy);
+    return;
+  }
   const composeTemplate = await fs.readFile(
     templatePath(params.runtime, "docker-compose.yml"),
     "utf8"
   );
-  const dockerfileTemplate = await fs.readFile(
-    templatePath(params.runtime, "Dockerfile"),
-    "utf8"
-  );
 
   const dbName = params.dbDatabase ?? "ctf";
-  const appUser = params.dbUser ?? "root";
-  const appPassword = appUser === "root" ? params.dbRootPassword ?? "" : params.dbPassword ?? "";
-  const appEnv = params.dbType === "mysql"
-    ? [
-        "    environment:",
-        "      MYSQL_HOST: db",
-        `      MYSQL_USER: ${appUser}`,
-        `      MYSQL_PASSWORD: ${appPassword}`,
-        `      MYSQL_DATABASE: ${dbName}`,
-      ].join("\n")
-    : "";
-
-  const dbDepends = params.dbType === "mysql"
-    ? ["    depends_on:", "      - db"].join("\n")
+  const appUser = params.dbUser ?? (params.dbType === "postgres" ? "postgres" : "root");
+  const appPassword =
+    params.dbType === "mysql" && appUser === "root"
+      ? params.dbRootPassword ?? ""
+      : params.dbPassword ?? "";
+  const appEnvEntries: string[] = [];
+  if (params.runtime === "node") {
+    appEnvEntries.push(`      PORT: "3000"`);
+  }
+  if (params.dbType === "mysql") {
+    appEnvEntries.push(
+      "      MYSQL_HOST: db",
+      `      MYSQL_USER: ${appUser}`,
+      `      MYSQL_PASSWORD: ${appPassword}`,
+      `      MYSQL_DATABASE: ${dbName}`
+    );
+  } else if (params.dbType === "postgres") {
+    appEnvEntries.push(
+      "      PGHOST: db",
+      `      PGPORT: "5432"`,
+      `      PGUSER: ${appUser}`,
+      `      PGPASSWORD: ${appPassword}`,
+      `      PGDATABASE: ${dbName}`
+    );
+  }
+  appEnvEntries.push(...buildSidecarAppEnv(params.sidecars));
+  if (params.bot) {
+    appEnvEntries.push(...buildBotAppEnv());
+  }
+  if (params.flag?.config.delivery.includes("env")) {
+    appEnvEntries.push(`      ${params.flag.config.env_name}: ${yamlString(params.flag.value)}`);
+  }
+  appEnvEntries.push(...buildHardeningEnv(params.runtime, params.hardening));
+  const appEnv = appEnvEntries.length > 0
+    ? ["    environment:", ...appEnvEntries].join("\n")
     : "";
 
-  const dbInitLine = params.dbInitExists
-    ? "      - ../pack/db/init.sql:/docker-entrypoint-initdb.d/init.sql:ro"
+  const appDependencies = [
+    ...(params.dbType !== "none" ? ["db"] : []),
+    ...getSidecarServiceNames(params.sidecars),
+  ];
+  const appDepends = appDependencies.length > 0
+    ? ["    depends_on:", ...appDependencies.map((service) => `      - ${service}`)].join("\n")
     : "";
 
-  const mysqlEnv = [
-    `      MYSQL_ROOT_PASSWORD: ${params.dbRootPassword ?? ""}`,
-    `      MYSQL_DATABASE: ${dbName}`,
+  const dbInitLines = [
+    params.dbInitExists
+      ? "      - ../pack/db/init.sql:/docker-entrypoint-initdb.d/init.sql:ro"
+      : "",
+    params.dbInitShExists
+      ? "      - ../pack/db/init.sh:/docker-entrypoint-initdb.d/init.sh:ro"
+      : "",
   ];
-  if (appUser !== "root") {
-    mysqlEnv.push(`      MYSQL_USER: ${appUser}`);
-    mysqlEnv.push(`      MYSQL_PASSWORD: ${appPassword}`);
-  }
-  const mysqlService = params.dbType === "mysql"
-    ? [
-        "  db:",
-        "    image: mysql:8",
-        "    environment:",
-        ...mysqlEnv,
-        "    volumes:",
-        "      - ../mysql-data:/var/lib/mysql",
-        dbInitLine,
-      ]
-        .filter((line) => line !== "")
-        .join("\n")
-    : "";
 
-  const compose = render(composeTemplate, {
-    HOST_PORT: String(params.hostPort),
+  const limitLines = buildResourceLimitLines(params.resourceLimits);
+
+  let dbService = "";
+  if (params.dbType === "mysql") {
+    const mysqlEnv = [
+      `      MYSQL_ROOT_PASSWORD: ${params.dbRootPassword ?? ""}`,
+      `      MYSQL_DATABASE: ${dbName}`,
+    ];
+    if (appUser !== "root") {
+      mysqlEnv.push(`      MYSQL_USER: ${appUser}`);
+      mysqlEnv.push(`      MYSQL_PASSWORD: ${appPassword}`);
+    }
+    dbService = [
+      "  db:",
+      "    image: mysql:8",
+      "    environment:",
+      ...mysqlEnv,
+      "    volumes:",
+      "      - ../mysql-data:/var/lib/mysql",
+      ...dbInitLines,
+      "    healthcheck:",
+      '      test: ["CMD", "mysqladmin", "ping", "-h", "127.0.0.1", "--silent"]',
+      "      interval: 5s",
+      "      timeout: 5s",
+      "      retries: 30",
+      ...limitLines,
+    ]
+      .filter((line) => line !== "")
+      .join("\n");
+  } else if (params.dbType === "postgres") {
+    dbService = [
+      "  db:",
+      "    image: postgres:16",
+      "    environment:",
+      `      POSTGRES_USER: ${appUser}`,
+      `      POSTGRES_PASSWORD: ${appPassword}`,
+      `      POSTGRES_DB: ${dbName}`,
+      "    volumes:",
+      "      - ../postgres-data:/var/lib/postgresql/data",
+      ...dbInitLines,
+      "    healthcheck:",
+      '      test: ["CMD-SHELL", "pg_isready -h 127.0.0.1 -U $$POSTGRES_USER -d $$POSTGRES_DB"]',
+      "      interval: 5s",
+      "      timeout: 5s",
+      "      retries: 30",
+      ...limitLines,
+    ]
+      .filter((line) => line !== "")
+      .join("\n");
+  }
+
+  const appVolumes: string[] = [];
+  if (params.runtime === "php" && params.runtimeOptions.php_ini) {
+    appVolumes.push("      - ./php.ini:/usr/local/etc/php/conf.d/zz-challenge.ini:ro");
+  }
+  if (params.flag?.config.delivery.includes("file")) {
+    appVolumes.push(`      - ../flag.txt:${params.flag.config.file_path}:ro`);
+  }
+  if (params.runtime === "custom" && appVolumes.length > 0) {
+    appVolumes.unshift("    volumes:");
+  }
+
+  let compose = render(composeTemplate, {
+    HOST_BINDING: params.hostBinding,
     RUNTIME_VERSION: params.runtimeVersion,
     APP_ENV: appEnv,
-    DB_DEPENDS: dbDepends,
-    MYSQL_SERVICE: mysqlService,
+    APP_DEPENDS: appDepends,
+    DB_SERVICE: dbService,
+    SIDECAR_SERVICES: [
+      buildSidecarServices(params.sidecars),
+      params.bot ? buildBotService(params.bot, params.appContainerPort) : "",
+    ]
+      .filter((block) => block !== "")
+      .join("\n"),
+    NODE_ENTRY: params.runtimeOptions.node_entry ?? DEFAULT_NODE_ENTRY,
+    APP_VOLUMES: appVolumes.join("\n"),
+    APP_LIMITS: limitLines.join("\n"),
+    APP_HARDENING: buildHardeningLines(params.runtime, params.hardening).join("\n"),
+    PYTHON_COMMAND: params.runtime === "flask" ? buildPythonCommand(params.runtimeOptions) : "",
+    CONTAINER_PORT: String(params.runtimeOptions.custom_container_port ?? ""),
   });
 
+  if (params.networkPolicy.mode !== "egress") {
+    compose = YAML.stringify(
+      applyNetworkPolicy(YAML.parse(compose), params.networkPolicy, {
+        service: "app",
+        containerPort: params.appContainerPort,
+        hostBinding: params.hostBinding,
+      })
+    );
+  }
+
+  await fs.writeFile(path.join(composeDir, "docker-compose.yml"), compose, "utf8");
+  await writeNetworkFiles(composeDir, params.networkPolicy);
+  if (params.bot) {
+    await fs.cp(path.join(getRepoRoot(), "templates", "bot"), path.join(composeDir, "bot"), {
+      recursive: true,
+    });
+  }
+  if (params.runtime === "custom") {
+    return;
+  }
+
+  const dockerfileTemplate = await fs.readFile(
+    templatePath(params.runtime, "Dockerfile"),
+    "utf8"
+  );
   const dockerfile = render(dockerfileTemplate, {
     RUNTIME_VERSION: params.runtimeVersion,
+    PHP_SETUP: params.runtime === "php" ? buildPhpSetup(params.runtimeOptions, params.dbType) : "",
+    DEPENDENCY_SETUP: await buildDependencySetup(params.runtime, packDir),
   });
-
-  await fs.writeFile(path.join(composeDir, "docker-compose.yml"), compose, "utf8");
   await fs.writeFile(path.join(composeDir, "Dockerfile"), dockerfile, "utf8");
+  if (params.runtime === "php" && params.runtimeOptions.php_ini) {
+    await fs.writeFile(path.join(composeDir, "php.ini"), params.runtimeOptions.php_ini, "utf8");
+  }
 }
@@ -1,11 +1,70 @@
-export type Runtime = "php" | "flask";
-export type DbType = "none" | "mysql";
+export type Runtime = "php" | "flask" | "node" | "custom";
+export type DbType = "none" | "mysql" | "postgres";
+export type SidecarType = "redis" | "memcached" | "mongo" | "mail";
+
+export type PythonServer = "gunicorn" | "uvicorn";
+
+export type RuntimeOptions = {
+  node_entry?: string;
+  python_entrypoint?: string;
+  python_server?: PythonServer;
+  python_workers?: number;
+  python_args?: string;
+  php_extensions?: string[];
+  php_apache_modules?: string[];
+  php_ini?: string;
+  custom_mode?: "dockerfile" | "compose";
+  custom_container_port?: number;
+};
+
+export type BotConfig = {
+  cookie_name: string;
+  cookie_value: string;
+  cookie_domain: string;
+  visit_timeout_ms: number;
+};
+
+export type FlagDelivery = "env" | "file" | "placeholder";
+
+export type FlagConfig = {
+  kind: "static" | "pattern";
+  value: string;
+  delivery: FlagDelivery[];
+  env_name: string;
+  file_path: string;
+};
 
 export type PortRange = {
   start: number;
   end: number;
 };
 
+export type PortPolicy = "auto" | "sticky" | "pinned";
+
+export type ProxyMode = "host" | "path";
+
+export type HardeningProfile = "strict" | "default" | "off";
+
+export type NetworkMode = "internal" | "egress" | "allowlist";
+
+export type NetworkPolicy = {
+  mode: NetworkMode;
+  allowlist: string[];
+};
+
+export type HealthCheck = {
+  path: string;
+  expected_status: number | null;
+  timeout_seconds: number;
+};
+
+export type ResourceLimits = {
+  cpus?: number;
+  mem_limit?: string;
+  pids_limit?: number;
+  ulimits?: Record<string, number>;
+};
+
 export type Settings = {
   id: 1;
   port_ranges_json: string;
@@ -15,6 +74,17 @@ export type Settings = {
   mysql_database: string;
   mysql_user: string;
   mysql_password: string;
+  postgres_database: string;
+  postgres_user: string;
+  postgres_password: string;
+  default_ttl_minutes: number;
+  resource_limits_json: string;
+  shell_enabled: number;
+  bind_address: string;
+  excluded_ports_json: string;
+  proxy_enabled: number;
+  proxy_port: number;
+  proxy_mode: ProxyMode;
   created_at: string;
   updated_at: string;
 };
@@ -22,9 +92,23 @@ export type Settings = {
 export type Challenge = {
   id: string;
   name: string;
+  slug: string;
   runtime: Runtime;
   runtime_version: string;
   db_type: DbType;
+  runtime_options_json: string;
+  sidecars_json: string;
+  bot_json: string;
+  flag_json: string;
+  max_instances: number;
+  port_policy: PortPolicy;
+  preferred_port: number | null;
+  last_port: number | null;
+  bind_address: string | null;
+  resource_limits_json: string;
+  hardening: HardeningProfile;
+  network_policy_json: string;
+  healthcheck_json: string;
   created_at: string;
   updated_at: string;
   files_hash: string;
@@ -34,11 +118,59 @@ export type Challenge = {
 export type Instance = {
   id: string;
   challenge_id: string;
-  status: "running" | "stopped" | "error";
+  owner: string;
+  status: "starting" | "running" | "stopped" | "error";
+  status_reason: string | null;
   host_port: number;
   container_port: number;
   compose_project: string;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type JobType =
+  | "start"
+  | "stop"
+  | "delete"
+  | "import"
+  | "restart"
+  | "reset"
+  | "snapshot"
+  | "restore"
+  | "delete_challenge";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type JobPhase =
+  | "queued"
+  | "extract"
+  | "validate"
+  | "copy"
+  | "render"
+  | "build"
+  | "up"
+  | "ready"
+  | "stop"
+  | "snapshot"
+  | "restore"
+  | "cleanup"
+  | "done";
+
+export type Job = {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  phase: JobPhase;
+  message: string | null;
+  error: string | null;
+  challenge_id: string | null;
+  instance_id: string | null;
+  payload_json: string;
+  result_json: string;
   created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
   updated_at: string;
 };
 
@@ -49,6 +181,18 @@ export type Manifest = {
     runtime: Runtime;
     runtime_version: string;
     db_type: DbType;
+    runtime_options?: RuntimeOptions;
+    sidecars?: SidecarType[];
+    bot?: BotConfig | null;
+    flag?: FlagConfig | null;
+    max_instances?: number;
+    port_policy?: PortPolicy;
+    preferred_port?: number | null;
+    bind_address?: string | null;
+    resource_limits?: ResourceLimits;
+    hardening?: HardeningProfile;
+    network_policy?: NetworkPolicy;
+    healthcheck?: HealthCheck;
   };
   files: {
     hash: string;
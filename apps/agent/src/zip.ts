@@ -84,7 +84,9 @@ export async function extractZipSafe(zipPath: string, destDir: string): Promise<
           }
           fs.mkdir(path.dirname(destPath), { recursive: true })
             .then(async () => {
-              const writeStream = (await fs.open(destPath, "w")).createWriteStream();
+              const mode = (entry.externalFileAttributes >>> 16) & 0o777;
+              const file = await fs.open(destPath, "w", mode ? mode | 0o600 : 0o666);
+              const writeStream = file.createWriteStream();
               await pipeline(readStream, writeStream);
               zip.readEntry();
             })
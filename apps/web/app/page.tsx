@@ -4,13 +4,30 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import type { DragEvent } from "react";
 import Link from "next/link";
 import { AGENT_URL } from "../lib/api";
+import { jobPhaseLabels, jobTypeLabels, readJob, waitForJob } from "../lib/jobs";
+import type { Job } from "../lib/jobs";
+import LogsModal from "../components/logs-modal";
+import SnapshotsModal from "../components/snapshots-modal";
+import TerminalModal from "../components/terminal-modal";
 
 type Challenge = {
   id: string;
   name: string;
-  runtime: "php" | "flask";
+  slug: string;
+  runtime: "php" | "flask" | "node" | "custom";
   runtime_version: string;
-  db_type: "none" | "mysql";
+  db_type: "none" | "mysql" | "postgres";
+  runtime_options_json: string;
+  sidecars_json: string;
+  bot_json: string;
+  flag_json: string;
+  max_instances: number;
+  port_policy: PortPolicy;
+  preferred_port: number | null;
+  last_port: number | null;
+  bind_address: string | null;
+  hardening: Hardening;
+  network_policy_json: string;
   created_at: string;
   updated_at: string;
   files_hash: string;
@@ -20,10 +37,13 @@ type Challenge = {
 type Instance = {
   id: string;
   challenge_id: string;
-  status: "running" | "stopped" | "error";
+  owner: string;
+  status: "starting" | "running" | "stopped" | "error";
+  status_reason: string | null;
   host_port: number;
   container_port: number;
   compose_project: string;
+  expires_at: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -35,43 +55,208 @@ type ChallengeDetail = {
 
 type ChallengeForm = {
   name: string;
-  runtime: "php" | "flask";
+  runtime: "php" | "flask" | "node" | "custom";
   runtime_version: string;
-  db_type: "none" | "mysql";
+  db_type: "none" | "mysql" | "postgres";
+  node_entry: string;
+  custom_container_port: string;
+  python_entrypoint: string;
+  python_server: "gunicorn" | "uvicorn";
+  python_workers: string;
+  python_args: string;
+  php_extensions: string;
+  php_apache_modules: string;
+  php_ini: string;
+  sidecars: Sidecar[];
+  bot_enabled: boolean;
+  bot_cookie_name: string;
+  bot_cookie_value: string;
+  bot_cookie_domain: string;
+  bot_visit_timeout_ms: string;
+  flag_enabled: boolean;
+  flag_kind: "static" | "pattern";
+  flag_value: string;
+  flag_delivery: FlagDelivery[];
+  flag_env_name: string;
+  flag_file_path: string;
+  max_instances: string;
+  limit_cpus: string;
+  limit_mem_limit: string;
+  limit_pids_limit: string;
+  hardening: Hardening;
+  network_mode: NetworkMode;
+  network_allowlist: string;
+  health_path: string;
+  health_expected_status: string;
+  health_timeout_seconds: string;
   zip: File | null;
 };
 
+type FlagDelivery = "env" | "file" | "placeholder";
+
+type Hardening = "strict" | "default" | "off";
+
+type NetworkMode = "internal" | "egress" | "allowlist";
+
+type PortPolicy = "auto" | "sticky" | "pinned";
+
+function isIpHostname(hostname: string): boolean {
+  return hostname.startsWith("[") || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+}
+
+type ProxySettings = {
+  enabled: boolean;
+  port: number;
+  mode: "host" | "path";
+};
+
+const portPolicyOptions: { value: PortPolicy; label: string }[] = [
+  { value: "auto", label: "自動" },
+  { value: "sticky", label: "前回のポート" },
+  { value: "pinned", label: "固定" },
+];
+
+const networkModeOptions: { value: NetworkMode; label: string }[] = [
+  { value: "egress", label: "Egress allowed" },
+  { value: "internal", label: "Internal only (外部通信なし)" },
+  { value: "allowlist", label: "Egress allowlist" },
+];
+
+const hardeningOptions: { value: Hardening; label: string }[] = [
+  { value: "strict", label: "Strict (read-only rootfs / 非root)" },
+  { value: "default", label: "Default (cap_drop ALL / no-new-privileges)" },
+  { value: "off", label: "Off" },
+];
+
+const flagDeliveryOptions: { value: FlagDelivery; label: string }[] = [
+  { value: "env", label: "Env" },
+  { value: "file", label: "File" },
+  { value: "placeholder", label: "{{FLAG}}" },
+];
+
+type Sidecar = "redis" | "memcached" | "mongo" | "mail";
+
+const sidecarOptions: { value: Sidecar; label: string }[] = [
+  { value: "redis", label: "Redis" },
+  { value: "memcached", label: "Memcached" },
+  { value: "mongo", label: "MongoDB" },
+  { value: "mail", label: "Mail (Mailpit)" },
+];
+
 const runtimeDefaults: Record<ChallengeForm["runtime"], string> = {
   php: "8.2",
   flask: "3.11",
+  node: "20",
+  custom: "",
 };
 
+function formatRemaining(expiresAt: string, now: number): string {
+  const remaining = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+  const hours = Math.floor(remaining / 3600);
+  const minutes = String(Math.floor((remaining % 3600) / 60)).padStart(2, "0");
+  const seconds = String(remaining % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function buildRuntimeOptions(form: ChallengeForm): Record<string, unknown> {
+  if (form.runtime === "node") {
+    return { node_entry: form.node_entry };
+  }
+  if (form.runtime === "php") {
+    return {
+      php_extensions: form.php_extensions,
+      php_apache_modules: form.php_apache_modules,
+      php_ini: form.php_ini,
+    };
+  }
+  if (form.runtime === "flask") {
+    return {
+      python_entrypoint: form.python_entrypoint,
+      python_server: form.python_server,
+      python_workers: Number(form.python_workers),
+      python_args: form.python_args,
+    };
+  }
+  if (form.runtime === "custom" && form.custom_container_port.trim()) {
+    return { custom_container_port: Number(form.custom_container_port) };
+  }
+  return {};
+}
+
 export default function Home() {
   const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [details, setDetails] = useState<Record<string, ChallengeDetail>>({});
   const [error, setError] = useState<string | null>(null);
   const [notice, setNotice] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [logsOpen, setLogsOpen] = useState(false);
-  const [logsText, setLogsText] = useState("");
+  const [logsTarget, setLogsTarget] = useState<{ instanceId: string; title: string } | null>(
+    null
+  );
+  const [shellTarget, setShellTarget] = useState<{ instanceId: string; title: string } | null>(
+    null
+  );
+  const [shellEnabled, setShellEnabled] = useState(false);
+  const [snapshotsTarget, setSnapshotsTarget] = useState<{
+    challengeId: string;
+    instanceId: string;
+    title: string;
+  } | null>(null);
   const [isChallengeDrag, setIsChallengeDrag] = useState(false);
   const [isImportDrag, setIsImportDrag] = useState(false);
   const [progressLabel, setProgressLabel] = useState<string | null>(null);
   const [host, setHost] = useState("");
   const [hostScheme, setHostScheme] = useState<"http" | "https">("http");
+  const [proxy, setProxy] = useState<ProxySettings>({ enabled: false, port: 8080, mode: "host" });
   const [portSummary, setPortSummary] = useState<{ free: number; total: number } | null>(null);
   const [toast, setToast] = useState<{ type: "error" | "notice"; message: string } | null>(null);
   const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const toastShowRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingOpenRef = useRef<Map<string, Window>>(new Map());
 
   const [challengeForm, setChallengeForm] = useState<ChallengeForm>({
     name: "",
     runtime: "php",
     runtime_version: runtimeDefaults.php,
     db_type: "none",
+    node_entry: "index.js",
+    custom_container_port: "",
+    python_entrypoint: "app:app",
+    python_server: "gunicorn",
+    python_workers: "1",
+    python_args: "",
+    php_extensions: "",
+    php_apache_modules: "",
+    php_ini: "",
+    sidecars: [],
+    bot_enabled: false,
+    bot_cookie_name: "flag",
+    bot_cookie_value: "",
+    bot_cookie_domain: "app",
+    bot_visit_timeout_ms: "10000",
+    flag_enabled: false,
+    flag_kind: "pattern",
+    flag_value: "CTF{<random 16 hex>}",
+    flag_delivery: ["env"],
+    flag_env_name: "FLAG",
+    flag_file_path: "/flag.txt",
+    max_instances: "1",
+    limit_cpus: "",
+    limit_mem_limit: "",
+    limit_pids_limit: "",
+    hardening: "default",
+    network_mode: "egress",
+    network_allowlist: "",
+    health_path: "",
+    health_expected_status: "",
+    health_timeout_seconds: "",
     zip: null,
   });
   const [importZip, setImportZip] = useState<File | null>(null);
+  const [ownerInputs, setOwnerInputs] = useState<Record<string, string>>({});
+  const [ttlInputs, setTtlInputs] = useState<Record<string, string>>({});
+  const [defaultTtlMinutes, setDefaultTtlMinutes] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+  const [jobs, setJobs] = useState<Record<string, Job>>({});
 
   const fetchDetail = useCallback(async (challengeId: string) => {
     const response = await fetch(`${AGENT_URL}/challenges/${challengeId}`);
@@ -111,21 +296,74 @@ export default function Home() {
     setPortSummary(data);
   }, []);
 
+  const trackJob = useCallback(
+    async (job: Job, onUpdate?: (job: Job) => void) => {
+      setJobs((prev) => ({ ...prev, [job.id]: job }));
+      let phase = job.phase;
+      try {
+        return await waitForJob(job.id, (next) => {
+          setJobs((prev) => ({ ...prev, [next.id]: next }));
+          onUpdate?.(next);
+          if (next.phase !== phase && next.challenge_id && next.phase === "ready") {
+            void fetchDetail(next.challenge_id).catch(() => undefined);
+          }
+          phase = next.phase;
+        });
+      } finally {
+        setJobs((prev) => {
+          const next = { ...prev };
+          delete next[job.id];
+          return next;
+        });
+        if (job.type === "delete_challenge") {
+          await fetchChallenges().catch(() => undefined);
+        } else if (job.challenge_id) {
+          await fetchDetail(job.challenge_id).catch(() => undefined);
+        }
+        await fetchPortSummary().catch(() => undefined);
+      }
+    },
+    [fetchChallenges, fetchDetail, fetchPortSummary]
+  );
+
   useEffect(() => {
     fetchChallenges().catch((err) => setError(err.message));
     fetchPortSummary().catch(() => undefined);
   }, [fetchChallenges, fetchPortSummary]);
 
+  useEffect(() => {
+    fetch(`${AGENT_URL}/jobs?active=1`)
+      .then((res) => (res.ok ? res.json() : { jobs: [] }))
+      .then((data: { jobs?: Job[] }) => {
+        for (const job of data.jobs ?? []) {
+          trackJob(job).catch((err: Error) => setError(err.message));
+        }
+      })
+      .catch(() => undefined);
+  }, [trackJob]);
+
   useEffect(() => {
     fetch(`${AGENT_URL}/settings`)
       .then((res) => res.json())
       .then((data) => {
         setHost(String(data.host ?? ""));
         setHostScheme(data.host_scheme === "https" ? "https" : "http");
+        setDefaultTtlMinutes(Number(data.default_ttl_minutes ?? 0));
+        setShellEnabled(data.shell_enabled === true);
+        setProxy({
+          enabled: data.proxy_enabled === true,
+          port: Number(data.proxy_port ?? 8080),
+          mode: data.proxy_mode === "path" ? "path" : "host",
+        });
       })
       .catch(() => undefined);
   }, []);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
   useEffect(() => {
     const message = error ?? notice;
     const type = error ? "error" : notice ? "notice" : null;
@@ -156,27 +394,6 @@ export default function Home() {
       }
     };
   }, [error, notice]);
-  const ensureDetail = useCallback(
-    async (challengeId: string) => {
-      if (details[challengeId]) {
-        return details[challengeId];
-      }
-      return await fetchDetail(challengeId);
-    },
-    [details, fetchDetail]
-  );
-
-  const ensureInstance = useCallback(
-    async (challengeId: string) => {
-      const detail = await ensureDetail(challengeId);
-      if (detail.instances.length === 0) {
-        throw new Error("インスタンスがありません");
-      }
-      return detail.instances[0];
-    },
-    [ensureDetail]
-  );
-
   const handleCreateChallenge = async () => {
     setError(null);
     setNotice(null);
@@ -199,6 +416,44 @@ export default function Home() {
           runtime: challengeForm.runtime,
           runtime_version: challengeForm.runtime_version,
           db_type: challengeForm.db_type,
+          runtime_options: buildRuntimeOptions(challengeForm),
+          sidecars: challengeForm.sidecars,
+          bot: challengeForm.bot_enabled
+            ? {
+                cookie_name: challengeForm.bot_cookie_name,
+                cookie_value: challengeForm.bot_cookie_value,
+                cookie_domain: challengeForm.bot_cookie_domain,
+                visit_timeout_ms: Number(challengeForm.bot_visit_timeout_ms),
+              }
+            : null,
+          flag: challengeForm.flag_enabled
+            ? {
+                kind: challengeForm.flag_kind,
+                value: challengeForm.flag_value,
+                delivery: challengeForm.flag_delivery,
+                env_name: challengeForm.flag_env_name,
+                file_path: challengeForm.flag_file_path,
+              }
+            : null,
+          max_instances: Number(challengeForm.max_instances),
+          resource_limits: {
+            cpus: challengeForm.limit_cpus,
+            mem_limit: challengeForm.limit_mem_limit,
+            pids_limit: challengeForm.limit_pids_limit,
+          },
+          hardening: challengeForm.hardening,
+          network_policy: {
+            mode: challengeForm.network_mode,
+            allowlist: challengeForm.network_allowlist
+              .split(/[\s,]+/)
+              .map((host) => host.trim())
+              .filter(Boolean),
+          },
+          healthcheck: {
+            path: challengeForm.health_path,
+            expected_status: challengeForm.health_expected_status,
+            timeout_seconds: challengeForm.health_timeout_seconds,
+          },
         })
       );
       const response = await fetch(`${AGENT_URL}/challenges`, {
@@ -258,76 +513,185 @@ export default function Home() {
       setError("インポート用ZIPを選択してください");
       return;
     }
+    setProgressLabel("アップロード中...");
     setLoading(true);
     try {
       const formData = new FormData();
       formData.append("zip", importZip);
-      const response = await fetch(`${AGENT_URL}/import`, {
-        method: "POST",
-        body: formData,
-      });
-      if (!response.ok) {
-        const data = (await response.json()) as { error?: string };
-        throw new Error(data.error ?? "インポートに失敗しました");
-      }
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/import`, {
+          method: "POST",
+          body: formData,
+        }),
+        "インポートに失敗しました"
+      );
       setImportZip(null);
+      await trackJob(job, (next) => setProgressLabel(jobPhaseLabels[next.phase]));
       setNotice("インポートが完了しました");
       await fetchChallenges();
-      await fetchPortSummary();
     } catch (err) {
       setError((err as Error).message);
     } finally {
       setLoading(false);
+      setProgressLabel(null);
     }
   };
 
-  const handleStart = async (challengeId: string) => {
+  const handleStart = async (challengeId: string, owner: string, ttlMinutes = "") => {
     setError(null);
     setNotice(null);
-    setProgressLabel("起動中...");
-    setLoading(true);
     try {
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/instances`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            challenge_id: challengeId,
+            owner,
+            ...(ttlMinutes.trim() ? { ttl_minutes: Number(ttlMinutes) } : {}),
+          }),
+        }),
+        "起動に失敗しました"
+      );
+      setOwnerInputs((prev) => ({ ...prev, [challengeId]: "" }));
+      await trackJob(job);
+      setNotice("インスタンスを起動しました");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleStartAll = async () => {
+    if (challenges.length === 0) {
+      return;
+    }
+    setError(null);
+    setNotice(null);
+    const submitted: Job[] = [];
+    for (const challenge of challenges) {
       const response = await fetch(`${AGENT_URL}/instances`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ challenge_id: challengeId }),
-      });
-      if (!response.ok) {
-        const data = (await response.json()) as { error?: string };
-        throw new Error(data.error ?? "起動に失敗しました");
+        body: JSON.stringify({ challenge_id: challenge.id }),
+      }).catch(() => null);
+      if (response?.ok) {
+        submitted.push((await response.json()) as Job);
       }
-      setNotice("インスタンスを起動しました");
-      await fetchDetail(challengeId);
-      await fetchPortSummary();
+    }
+    const results = await Promise.allSettled(submitted.map((job) => trackJob(job)));
+    const failed = results.filter((result) => result.status === "rejected").length;
+    if (failed > 0) {
+      setError(`${failed}件の起動に失敗しました`);
+    } else {
+      setNotice("全て起動しました");
+    }
+  };
+
+  const handleStop = async (challengeId: string, instanceId: string) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/instances/${instanceId}/stop`, {
+          method: "POST",
+        }),
+        "停止に失敗しました"
+      );
+      await trackJob(job);
+      setNotice("停止しました");
     } catch (err) {
       setError((err as Error).message);
-    } finally {
-      setLoading(false);
-      setProgressLabel(null);
+      await fetchDetail(challengeId).catch(() => undefined);
     }
   };
 
-  const handleStartAll = async () => {
+  const handleStopAll = async () => {
     if (challenges.length === 0) {
       return;
     }
     setError(null);
     setNotice(null);
-    setProgressLabel("全て起動中...");
-    setLoading(true);
     try {
+      const submitted: Job[] = [];
       for (const challenge of challenges) {
-        const response = await fetch(`${AGENT_URL}/instances`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ challenge_id: challenge.id }),
-        });
-        if (!response.ok && response.status !== 409) {
-          const data = (await response.json()) as { error?: string };
-          throw new Error(data.error ?? "起動に失敗しました");
+        const detail = await fetchDetail(challenge.id).catch(() => null);
+        const running = (detail?.instances ?? []).filter(
+          (instance) => instance.status === "running" || instance.status === "starting"
+        );
+        for (const instance of running) {
+          submitted.push(
+            await readJob(
+              await fetch(`${AGENT_URL}/instances/${instance.id}/stop`, {
+                method: "POST",
+              }),
+              "停止に失敗しました"
+            )
+          );
         }
       }
-      setNotice("全て起動しました");
+      const results = await Promise.allSettled(submitted.map((job) => trackJob(job)));
+      const failed = results.filter((result) => result.status === "rejected").length;
+      if (failed > 0) {
+        throw new Error(`${failed}件の停止に失敗しました`);
+      }
+      setNotice("全て停止しました");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleInstanceAction = async (
+    challengeId: string,
+    instanceId: string,
+    action: "restart" | "reset"
+  ) => {
+    if (
+      action === "reset" &&
+      !confirm("ファイルとDBを初期状態に戻して起動し直します。よろしいですか？")
+    ) {
+      return;
+    }
+    setError(null);
+    setNotice(null);
+    setProgressLabel(action === "reset" ? "リセット中..." : "再起動中...");
+    setLoading(true);
+    try {
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/instances/${instanceId}/${action}`, { method: "POST" }),
+        action === "reset" ? "リセットに失敗しました" : "再起動に失敗しました"
+      );
+      await trackJob(job, (next) => setProgressLabel(jobPhaseLabels[next.phase]));
+      setNotice(action === "reset" ? "リセットしました" : "再起動しました");
+    } catch (err) {
+      setError((err as Error).message);
+      await fetchDetail(challengeId).catch(() => undefined);
+    } finally {
+      setLoading(false);
+      setProgressLabel(null);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setError(null);
+    setNotice(null);
+    setProgressLabel("Dockerと同期中...");
+    setLoading(true);
+    try {
+      const response = await fetch(`${AGENT_URL}/reconcile`, { method: "POST" });
+      const data = (await response.json()) as {
+        error?: string;
+        status_changes?: unknown[];
+        port_changes?: unknown[];
+        orphans_removed?: unknown[];
+      };
+      if (!response.ok) {
+        throw new Error(data.error ?? "同期に失敗しました");
+      }
+      setNotice(
+        `同期しました (状態 ${data.status_changes?.length ?? 0}件 / ポート ${
+          data.port_changes?.length ?? 0
+        }件 / 不明なプロジェクト ${data.orphans_removed?.length ?? 0}件)`
+      );
       await fetchChallenges();
       await fetchPortSummary();
     } catch (err) {
@@ -338,82 +702,93 @@ export default function Home() {
     }
   };
 
-  const handleStop = async (challengeId: string) => {
+  const handleLogs = (challenge: Challenge, instance: Instance) => {
+    setError(null);
+    setLogsTarget({
+      instanceId: instance.id,
+      title: `${challenge.name} / ${instance.owner || "default"}`,
+    });
+  };
+
+  const handleShell = (challenge: Challenge, instance: Instance) => {
+    setError(null);
+    setShellTarget({
+      instanceId: instance.id,
+      title: `${challenge.name} / ${instance.owner || "default"}`,
+    });
+  };
+
+  const handleSnapshots = (challenge: Challenge, instance: Instance) => {
+    setError(null);
+    setSnapshotsTarget({
+      challengeId: challenge.id,
+      instanceId: instance.id,
+      title: `${challenge.name} / ${instance.owner || "default"}`,
+    });
+  };
+
+  const handleExtend = async (challengeId: string, instanceId: string) => {
     setError(null);
     setNotice(null);
-    setProgressLabel("停止中...");
-    setLoading(true);
     try {
-      const instance = await ensureInstance(challengeId);
-      const response = await fetch(`${AGENT_URL}/instances/${instance.id}/stop`, {
+      const response = await fetch(`${AGENT_URL}/instances/${instanceId}/extend`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
       });
       if (!response.ok) {
         const data = (await response.json()) as { error?: string };
-        throw new Error(data.error ?? "停止に失敗しました");
+        throw new Error(data.error ?? "延長に失敗しました");
       }
-      setNotice("停止しました");
+      setNotice("有効期限を延長しました");
       await fetchDetail(challengeId);
-      await fetchPortSummary();
     } catch (err) {
       setError((err as Error).message);
-    } finally {
-      setLoading(false);
-      setProgressLabel(null);
     }
   };
 
-  const handleStopAll = async () => {
-    if (challenges.length === 0) {
+  const handleDeleteInstance = async (challengeId: string, instanceId: string) => {
+    if (!confirm("このインスタンスを削除します。よろしいですか？")) {
       return;
     }
     setError(null);
     setNotice(null);
-    setProgressLabel("全て停止中...");
-    setLoading(true);
     try {
-      for (const challenge of challenges) {
-        const detail = await fetchDetail(challenge.id).catch(() => null);
-        const instance = detail?.instances?.[0];
-        if (!instance || instance.status !== "running") {
-          continue;
-        }
-        const response = await fetch(`${AGENT_URL}/instances/${instance.id}/stop`, {
-          method: "POST",
-        });
-        if (!response.ok) {
-          const data = (await response.json()) as { error?: string };
-          throw new Error(data.error ?? "停止に失敗しました");
-        }
-      }
-      setNotice("全て停止しました");
-      await fetchChallenges();
-      await fetchPortSummary();
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/instances/${instanceId}`, {
+          method: "DELETE",
+        }),
+        "インスタンス削除に失敗しました"
+      );
+      await trackJob(job);
+      setNotice("インスタンスを削除しました");
     } catch (err) {
       setError((err as Error).message);
-    } finally {
-      setLoading(false);
-      setProgressLabel(null);
+      await fetchDetail(challengeId).catch(() => undefined);
     }
   };
 
-  const handleLogs = async (challengeId: string) => {
+  const handleUpdateChallenge = async (
+    challengeId: string,
+    patch: Record<string, unknown>,
+    label: string
+  ) => {
     setError(null);
-    setLoading(true);
+    setNotice(null);
     try {
-      const instance = await ensureInstance(challengeId);
-      const response = await fetch(`${AGENT_URL}/instances/${instance.id}/logs?tail=200`);
+      const response = await fetch(`${AGENT_URL}/challenges/${challengeId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
       if (!response.ok) {
         const data = (await response.json()) as { error?: string };
-        throw new Error(data.error ?? "ログ取得に失敗しました");
+        throw new Error(data.error ?? `${label}の更新に失敗しました`);
       }
-      const data = (await response.json()) as { logs: string };
-      setLogsText(data.logs || "(No logs)");
-      setLogsOpen(true);
+      setNotice(`${label}を更新しました`);
+      await fetchChallenges();
     } catch (err) {
       setError((err as Error).message);
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -455,16 +830,12 @@ export default function Home() {
     setProgressLabel("削除中...");
     setLoading(true);
     try {
-      const response = await fetch(`${AGENT_URL}/challenges/${challengeId}`, {
-        method: "DELETE",
-      });
-      if (!response.ok) {
-        const data = (await response.json()) as { error?: string };
-        throw new Error(data.error ?? "Challenge削除に失敗しました");
-      }
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/challenges/${challengeId}`, { method: "DELETE" }),
+        "Challenge削除に失敗しました"
+      );
+      await trackJob(job, (next) => setProgressLabel(jobPhaseLabels[next.phase]));
       setNotice("Challengeを削除しました");
-      await fetchChallenges();
-      await fetchPortSummary();
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -473,33 +844,87 @@ export default function Home() {
     }
   };
 
-  const buildAccessUrl = (hostPort: number): string => {
-    const raw = host.trim();
-    const scheme = hostScheme === "https" ? "https" : "http";
-    if (!raw) {
-      return `${scheme}://127.0.0.1:${hostPort}/`;
-    }
-    try {
-      const hasScheme = raw.startsWith("http://") || raw.startsWith("https://");
-      const url = new URL(hasScheme ? raw : `${scheme}://${raw}`);
-      if (!url.port) {
-        url.port = String(hostPort);
+  const buildAccessUrl = useCallback(
+    (challenge: Challenge | undefined, instance: Instance): string => {
+      const raw = host.trim();
+      const scheme = hostScheme === "https" ? "https" : "http";
+      const useProxy = proxy.enabled && Boolean(challenge);
+      const port = useProxy ? proxy.port : instance.host_port;
+      const key =
+        challenge && challenge.max_instances > 1
+          ? `${challenge.slug}--${instance.id.slice(0, 8)}`
+          : (challenge?.slug ?? "");
+      try {
+        const hasScheme = raw.startsWith("http://") || raw.startsWith("https://");
+        const url = new URL(
+          !raw ? `${scheme}://127.0.0.1` : hasScheme ? raw : `${scheme}://${raw}`
+        );
+        if (useProxy || !url.port) {
+          url.port = String(port);
+        }
+        url.pathname = "/";
+        url.hash = "";
+        url.search = "";
+        if (useProxy && (proxy.mode === "path" || isIpHostname(url.hostname))) {
+          url.pathname = `/c/${key}/`;
+        } else if (useProxy) {
+          url.hostname = `${key}.${url.hostname}`;
+        }
+        return url.toString();
+      } catch {
+        return `http://${raw}:${port}${useProxy ? `/c/${key}/` : "/"}`;
       }
-      url.pathname = "/";
-      url.hash = "";
-      url.search = "";
-      return url.toString();
-    } catch {
-      return `http://${raw}:${hostPort}/`;
+    },
+    [host, hostScheme, proxy]
+  );
+
+  const handleOpen = (challenge: Challenge, instance: Instance) => {
+    if (instance.status === "running") {
+      window.open(buildAccessUrl(challenge, instance), "_blank", "noopener,noreferrer");
+      return;
+    }
+    const win = window.open("", "_blank");
+    if (!win) {
+      setError("ポップアップがブロックされました");
+      return;
     }
+    win.opener = null;
+    win.document.title = "Starting...";
+    win.document.body.textContent = "インスタンスの起動を待っています...";
+    pendingOpenRef.current.set(instance.id, win);
   };
 
-  const handleOpen = (hostPort: number) => {
-    window.open(buildAccessUrl(hostPort), "_blank", "noopener,noreferrer");
-  };
+  useEffect(() => {
+    const instances = Object.values(details).flatMap((detail) => detail.instances);
+    for (const [instanceId, win] of pendingOpenRef.current) {
+      const instance = instances.find((item) => item.id === instanceId);
+      if (instance?.status === "starting") {
+        continue;
+      }
+      pendingOpenRef.current.delete(instanceId);
+      if (instance?.status === "running") {
+        win.location.replace(
+          buildAccessUrl(details[instance.challenge_id]?.challenge, instance)
+        );
+      } else {
+        win.close();
+        setError(instance?.status_reason ?? "インスタンスが起動しませんでした");
+      }
+    }
+    const startingIds = Object.values(details)
+      .filter((detail) => detail.instances.some((instance) => instance.status === "starting"))
+      .map((detail) => detail.challenge.id);
+    if (startingIds.length === 0) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      void Promise.allSettled(startingIds.map((challengeId) => fetchDetail(challengeId)));
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [details, fetchDetail, buildAccessUrl]);
 
-  const handleCopyUrl = async (hostPort: number) => {
-    const url = buildAccessUrl(hostPort);
+  const handleCopyUrl = async (challenge: Challenge, instance: Instance) => {
+    const url = buildAccessUrl(challenge, instance);
     try {
       await navigator.clipboard.writeText(url);
       setNotice("URLをコピーしました");
@@ -508,6 +933,21 @@ export default function Home() {
     }
   };
 
+  const handleCopyFlag = async (instanceId: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`${AGENT_URL}/instances/${instanceId}/flag`);
+      const data = (await response.json()) as { flag?: string; error?: string };
+      if (!response.ok || !data.flag) {
+        throw new Error(data.error ?? "flagの取得に失敗しました");
+      }
+      await navigator.clipboard.writeText(data.flag);
+      setNotice("flagをコピーしました");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
   return (
     <div className="min-h-screen px-6 py-10 text-foreground">
       <header className="mb-8 flex flex-wrap items-center justify-between gap-4">
@@ -575,6 +1015,14 @@ export default function Home() {
           >
             Stop All
           </button>
+          <button
+            className="rounded-full border border-zinc-300 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-700 shadow-sm transition hover:border-zinc-400"
+            onClick={handleReconcile}
+            disabled={loading}
+            title="Dockerの状態とインスタンス一覧を同期します"
+          >
+            Sync
+          </button>
         </div>
       </div>
       {progressLabel && (
@@ -636,7 +1084,9 @@ export default function Home() {
                     className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
                   >
                     <option value="php">PHP (Apache)</option>
-                    <option value="flask">Flask (Gunicorn)</option>
+                    <option value="flask">Python (Flask / FastAPI)</option>
+                    <option value="node">Node.js (Express)</option>
+                    <option value="custom">Custom (Dockerfile / Compose)</option>
                   </select>
                 </label>
                 <label className="block">
@@ -651,11 +1101,315 @@ export default function Home() {
                         runtime_version: event.target.value,
                       }))
                     }
+                    disabled={challengeForm.runtime === "custom"}
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm disabled:bg-zinc-100 disabled:text-zinc-400"
+                    placeholder={challengeForm.runtime === "custom" ? "-" : "8.2"}
+                  />
+                </label>
+              </div>
+              {challengeForm.runtime === "node" && (
+                <label className="block">
+                  <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                    Entry Script
+                  </span>
+                  <input
+                    value={challengeForm.node_entry}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, node_entry: event.target.value }))
+                    }
                     className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
-                    placeholder="8.2"
+                    placeholder="index.js"
                   />
                 </label>
+              )}
+              <label className="block">
+                <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                  Max Instances
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={challengeForm.max_instances}
+                  onChange={(event) =>
+                    setChallengeForm((prev) => ({ ...prev, max_instances: event.target.value }))
+                  }
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                  placeholder="1"
+                />
+              </label>
+              <div>
+                <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                  Resource Limits (空欄はSettingsの既定値)
+                </span>
+                <div className="grid grid-cols-3 gap-3">
+                  <input
+                    value={challengeForm.limit_cpus}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, limit_cpus: event.target.value }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="CPUs"
+                  />
+                  <input
+                    value={challengeForm.limit_mem_limit}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, limit_mem_limit: event.target.value }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="Memory"
+                  />
+                  <input
+                    value={challengeForm.limit_pids_limit}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, limit_pids_limit: event.target.value }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="PIDs"
+                  />
+                </div>
+              </div>
+              <div>
+                <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                  Health Check (Path / Status / Timeout秒)
+                </span>
+                <div className="grid grid-cols-3 gap-3">
+                  <input
+                    value={challengeForm.health_path}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, health_path: event.target.value }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="/"
+                  />
+                  <input
+                    value={challengeForm.health_expected_status}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({
+                        ...prev,
+                        health_expected_status: event.target.value,
+                      }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="<500"
+                  />
+                  <input
+                    value={challengeForm.health_timeout_seconds}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({
+                        ...prev,
+                        health_timeout_seconds: event.target.value,
+                      }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="180"
+                  />
+                </div>
               </div>
+              <label className="block">
+                <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                  Hardening
+                </span>
+                <select
+                  value={challengeForm.hardening}
+                  onChange={(event) =>
+                    setChallengeForm((prev) => ({
+                      ...prev,
+                      hardening: event.target.value as Hardening,
+                    }))
+                  }
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                >
+                  {hardeningOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                  Network
+                </span>
+                <select
+                  value={challengeForm.network_mode}
+                  onChange={(event) =>
+                    setChallengeForm((prev) => ({
+                      ...prev,
+                      network_mode: event.target.value as NetworkMode,
+                    }))
+                  }
+                  className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                >
+                  {networkModeOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {challengeForm.network_mode === "allowlist" && (
+                <label className="block">
+                  <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                    Allowed Hosts
+                  </span>
+                  <textarea
+                    value={challengeForm.network_allowlist}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({
+                        ...prev,
+                        network_allowlist: event.target.value,
+                      }))
+                    }
+                    rows={3}
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 font-mono text-xs"
+                    placeholder={"pypi.org\n*.github.com"}
+                  />
+                </label>
+              )}
+              {challengeForm.runtime === "php" && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Extensions
+                      </span>
+                      <input
+                        value={challengeForm.php_extensions}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            php_extensions: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                        placeholder="pdo_mysql, gd"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Apache Modules
+                      </span>
+                      <input
+                        value={challengeForm.php_apache_modules}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            php_apache_modules: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                        placeholder="rewrite"
+                      />
+                    </label>
+                  </div>
+                  <label className="block">
+                    <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                      php.ini
+                    </span>
+                    <textarea
+                      value={challengeForm.php_ini}
+                      onChange={(event) =>
+                        setChallengeForm((prev) => ({ ...prev, php_ini: event.target.value }))
+                      }
+                      rows={3}
+                      className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 font-mono text-xs"
+                      placeholder="allow_url_include = On"
+                    />
+                  </label>
+                </>
+              )}
+              {challengeForm.runtime === "flask" && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Entrypoint
+                      </span>
+                      <input
+                        value={challengeForm.python_entrypoint}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            python_entrypoint: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                        placeholder="app:app"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Server
+                      </span>
+                      <select
+                        value={challengeForm.python_server}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            python_server: event.target.value as ChallengeForm["python_server"],
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                      >
+                        <option value="gunicorn">Gunicorn (WSGI)</option>
+                        <option value="uvicorn">Uvicorn (ASGI)</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div className="grid grid-cols-[80px_1fr] gap-3">
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Workers
+                      </span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={challengeForm.python_workers}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            python_workers: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Extra Args
+                      </span>
+                      <input
+                        value={challengeForm.python_args}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({ ...prev, python_args: event.target.value }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                        placeholder="--timeout 60"
+                      />
+                    </label>
+                  </div>
+                </>
+              )}
+              {challengeForm.runtime === "custom" && (
+                <label className="block">
+                  <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                    Container Port
+                  </span>
+                  <input
+                    type="number"
+                    value={challengeForm.custom_container_port}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({
+                        ...prev,
+                        custom_container_port: event.target.value,
+                      }))
+                    }
+                    className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                    placeholder="DockerfileのEXPOSEを使用"
+                  />
+                </label>
+              )}
               <label className="block">
                 <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">DB</span>
                 <select
@@ -670,8 +1424,206 @@ export default function Home() {
                 >
                   <option value="none">None</option>
                   <option value="mysql">MySQL</option>
+                  <option value="postgres">PostgreSQL</option>
                 </select>
               </label>
+              <div>
+                <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                  Sidecars
+                </span>
+                <div className="flex flex-wrap gap-3">
+                  {sidecarOptions.map((option) => (
+                    <label key={option.value} className="flex items-center gap-1 text-xs text-zinc-600">
+                      <input
+                        type="checkbox"
+                        checked={challengeForm.sidecars.includes(option.value)}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            sidecars: event.target.checked
+                              ? [...prev.sidecars, option.value]
+                              : prev.sidecars.filter((value) => value !== option.value),
+                          }))
+                        }
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-zinc-500">
+                  <input
+                    type="checkbox"
+                    checked={challengeForm.bot_enabled}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, bot_enabled: event.target.checked }))
+                    }
+                  />
+                  Admin Bot
+                </label>
+                {challengeForm.bot_enabled && (
+                  <div className="mt-2 grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Cookie Name
+                      </span>
+                      <input
+                        value={challengeForm.bot_cookie_name}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            bot_cookie_name: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Cookie Value
+                      </span>
+                      <input
+                        value={challengeForm.bot_cookie_value}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            bot_cookie_value: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                        placeholder="CTF{...}"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Cookie Domain
+                      </span>
+                      <input
+                        value={challengeForm.bot_cookie_domain}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            bot_cookie_domain: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                        Timeout (ms)
+                      </span>
+                      <input
+                        type="number"
+                        value={challengeForm.bot_visit_timeout_ms}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            bot_visit_timeout_ms: event.target.value,
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                      />
+                    </label>
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="flex items-center gap-2 text-xs uppercase tracking-wide text-zinc-500">
+                  <input
+                    type="checkbox"
+                    checked={challengeForm.flag_enabled}
+                    onChange={(event) =>
+                      setChallengeForm((prev) => ({ ...prev, flag_enabled: event.target.checked }))
+                    }
+                  />
+                  Flag
+                </label>
+                {challengeForm.flag_enabled && (
+                  <div className="mt-2 space-y-3">
+                    <div className="grid grid-cols-[110px_1fr] gap-3">
+                      <select
+                        value={challengeForm.flag_kind}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({
+                            ...prev,
+                            flag_kind: event.target.value as ChallengeForm["flag_kind"],
+                          }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm"
+                      >
+                        <option value="pattern">Pattern</option>
+                        <option value="static">Static</option>
+                      </select>
+                      <input
+                        value={challengeForm.flag_value}
+                        onChange={(event) =>
+                          setChallengeForm((prev) => ({ ...prev, flag_value: event.target.value }))
+                        }
+                        className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 font-mono text-xs"
+                        placeholder="CTF{<random 16 hex>}"
+                      />
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      {flagDeliveryOptions.map((option) => (
+                        <label
+                          key={option.value}
+                          className="flex items-center gap-1 text-xs text-zinc-600"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={challengeForm.flag_delivery.includes(option.value)}
+                            onChange={(event) =>
+                              setChallengeForm((prev) => ({
+                                ...prev,
+                                flag_delivery: event.target.checked
+                                  ? [...prev.flag_delivery, option.value]
+                                  : prev.flag_delivery.filter((value) => value !== option.value),
+                              }))
+                            }
+                          />
+                          {option.label}
+                        </label>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <label className="block">
+                        <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                          Env Name
+                        </span>
+                        <input
+                          value={challengeForm.flag_env_name}
+                          onChange={(event) =>
+                            setChallengeForm((prev) => ({
+                              ...prev,
+                              flag_env_name: event.target.value,
+                            }))
+                          }
+                          disabled={!challengeForm.flag_delivery.includes("env")}
+                          className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm disabled:bg-zinc-100 disabled:text-zinc-400"
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
+                          File Path
+                        </span>
+                        <input
+                          value={challengeForm.flag_file_path}
+                          onChange={(event) =>
+                            setChallengeForm((prev) => ({
+                              ...prev,
+                              flag_file_path: event.target.value,
+                            }))
+                          }
+                          disabled={!challengeForm.flag_delivery.includes("file")}
+                          className="w-full rounded-2xl border border-zinc-200 bg-white px-3 py-2 text-sm disabled:bg-zinc-100 disabled:text-zinc-400"
+                        />
+                      </label>
+                    </div>
+                  </div>
+                )}
+              </div>
               <div>
                 <span className="mb-1 block text-xs uppercase tracking-wide text-zinc-500">
                   ZIP
@@ -752,10 +1704,20 @@ export default function Home() {
               )}
               {challenges.map((challenge) => {
                 const detail = details[challenge.id];
-                const instance = detail?.instances[0];
-                const openDisabled = !instance || instance.status !== "running";
-                const statusLabel = instance ? instance.status.toUpperCase() : "IDLE";
-                const portLabel = instance ? `Port ${instance.host_port}` : "未起動";
+                const instances = detail?.instances ?? [];
+                const runningCount = instances.filter(
+                  (instance) => instance.status === "running" || instance.status === "starting"
+                ).length;
+                const owner = ownerInputs[challenge.id] ?? "";
+                const ttl = ttlInputs[challenge.id] ?? "";
+                const challengeJobs = Object.values(jobs).filter(
+                  (job) => job.challenge_id === challenge.id
+                );
+                const hasFlag = Boolean(challenge.flag_json && challenge.flag_json !== "null");
+                const sidecars = JSON.parse(challenge.sidecars_json || "[]") as Sidecar[];
+                const networkMode = (
+                  JSON.parse(challenge.network_policy_json || "null") as { mode: NetworkMode } | null
+                )?.mode;
                 return (
                   <div
                     key={challenge.id}
@@ -772,79 +1734,329 @@ export default function Home() {
                           </span>
                         </div>
                         <p className="mt-1 text-xs text-zinc-500">
-                          DB: {challenge.db_type} · {new Date(challenge.created_at).toLocaleString()}
+                          DB: {challenge.db_type}
+                          {sidecars.length > 0 && ` · ${sidecars.join(", ")}`}
+                          {challenge.bot_json && challenge.bot_json !== "null" && " · bot"}
+                          {challenge.hardening !== "default" && ` · hardening: ${challenge.hardening}`}
+                          {networkMode && networkMode !== "egress" && ` · network: ${networkMode}`} ·{" "}
+                          {new Date(challenge.created_at).toLocaleString()}
                         </p>
-                        <p className="mt-2 text-xs font-semibold text-zinc-700">
-                          {statusLabel} · {portLabel}
+                        <p className="mt-2 flex items-center gap-2 text-xs font-semibold text-zinc-700">
+                          RUNNING {runningCount} /
+                          <input
+                            key={`${challenge.id}-${challenge.max_instances}`}
+                            type="number"
+                            min={1}
+                            max={100}
+                            defaultValue={challenge.max_instances}
+                            onBlur={(event) => {
+                              if (Number(event.target.value) !== challenge.max_instances) {
+                                void handleUpdateChallenge(
+                                  challenge.id,
+                                  { max_instances: Number(event.target.value) },
+                                  "最大インスタンス数"
+                                );
+                              }
+                            }}
+                            title="最大インスタンス数"
+                            aria-label="最大インスタンス数"
+                            className="w-14 rounded-full border border-zinc-200 px-2 py-0.5 text-xs"
+                          />
                         </p>
-                      </div>
-                      <div className="flex flex-col items-end gap-2">
-                        <div className="flex flex-wrap justify-end gap-2">
-                          <button
-                            className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
-                            onClick={() => handleStart(challenge.id)}
-                            disabled={loading || instance?.status === "running"}
-                          >
-                            Start
-                          </button>
-                          <button
-                            className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
-                            onClick={() => handleLogs(challenge.id)}
-                            disabled={loading || !instance}
-                          >
-                            Logs
-                          </button>
-                          <button
-                            className={`rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold transition ${
-                              openDisabled
-                                ? "cursor-not-allowed text-zinc-300"
-                                : "text-zinc-600 hover:border-zinc-400"
-                            }`}
-                            onClick={() => instance && handleOpen(instance.host_port)}
-                            disabled={openDisabled}
+                        <p className="mt-1 flex items-center gap-2 text-xs font-semibold text-zinc-700">
+                          PORT
+                          <select
+                            value={challenge.port_policy}
+                            onChange={(event) =>
+                              void handleUpdateChallenge(
+                                challenge.id,
+                                { port_policy: event.target.value },
+                                "ポート設定"
+                              )
+                            }
+                            title="ポートの割り当て方法"
+                            aria-label="ポートの割り当て方法"
+                            className="rounded-full border border-zinc-200 px-2 py-0.5 text-xs"
                           >
-                            Open
-                          </button>
-                          <button
-                            className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
-                            onClick={() => handleStop(challenge.id)}
-                            disabled={loading || !instance || instance.status !== "running"}
-                          >
-                            Stop
-                          </button>
-                          <button
-                            className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
-                            onClick={() => handleExport(challenge.id)}
-                            disabled={loading}
-                          >
-                            Export
-                          </button>
-                          <button
-                            className="rounded-full border border-red-200 px-3 py-1 text-xs font-semibold text-red-500 hover:border-red-300"
-                            onClick={() => handleDeleteChallenge(challenge.id)}
-                            disabled={loading}
-                          >
-                            Delete Challenge
-                          </button>
-                        </div>
-                        <div className="flex items-center justify-end gap-2">
-                          <button
-                            type="button"
-                            title="URLをコピー"
-                            aria-label="URLをコピー"
-                            className={`inline-flex h-8 w-8 items-center justify-center rounded-full border text-xs font-semibold transition ${
-                              openDisabled
-                                ? "cursor-not-allowed border-zinc-200 text-zinc-300"
-                                : "border-zinc-300 text-zinc-600 hover:border-zinc-400"
-                            }`}
-                            onClick={() => instance && handleCopyUrl(instance.host_port)}
-                            disabled={openDisabled}
-                          >
-                            <span className="text-base">⧉</span>
-                          </button>
-                        </div>
+                            {portPolicyOptions.map((option) => (
+                              <option key={option.value} value={option.value}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                          <input
+                            key={`${challenge.id}-${challenge.preferred_port ?? ""}`}
+                            type="number"
+                            defaultValue={challenge.preferred_port ?? ""}
+                            placeholder="希望ポート"
+                            onBlur={(event) => {
+                              const value = event.target.value.trim();
+                              if (value !== String(challenge.preferred_port ?? "")) {
+                                void handleUpdateChallenge(
+                                  challenge.id,
+                                  { preferred_port: value === "" ? null : Number(value) },
+                                  "ポート設定"
+                                );
+                              }
+                            }}
+                            title="希望ポート"
+                            aria-label="希望ポート"
+                            className="w-20 rounded-full border border-zinc-200 px-2 py-0.5 text-xs"
+                          />
+                          <input
+                            key={`${challenge.id}-bind-${challenge.bind_address ?? ""}`}
+                            type="text"
+                            defaultValue={challenge.bind_address ?? ""}
+                            placeholder="Bind (既定)"
+                            onBlur={(event) => {
+                              const value = event.target.value.trim();
+                              if (value !== (challenge.bind_address ?? "")) {
+                                void handleUpdateChallenge(
+                                  challenge.id,
+                                  { bind_address: value },
+                                  "ポート設定"
+                                );
+                              }
+                            }}
+                            title="公開アドレス (空欄でSettingsの値を使用)"
+                            aria-label="公開アドレス"
+                            className="w-28 rounded-full border border-zinc-200 px-2 py-0.5 text-xs"
+                          />
+                          {proxy.enabled && (
+                            <input
+                              key={`${challenge.id}-slug-${challenge.slug}`}
+                              type="text"
+                              defaultValue={challenge.slug}
+                              onBlur={(event) => {
+                                const value = event.target.value.trim();
+                                if (value && value !== challenge.slug) {
+                                  void handleUpdateChallenge(
+                                    challenge.id,
+                                    { slug: value },
+                                    "slug"
+                                  );
+                                }
+                              }}
+                              title="リバースプロキシのslug"
+                              aria-label="slug"
+                              className="w-28 rounded-full border border-zinc-200 px-2 py-0.5 font-mono text-xs"
+                            />
+                          )}
+                          {challenge.port_policy === "sticky" && challenge.last_port !== null && (
+                            <span className="font-normal text-zinc-500">
+                              前回: {challenge.last_port}
+                            </span>
+                          )}
+                        </p>
+                        {challengeJobs.map((job) => (
+                          <p key={job.id} className="mt-1 text-xs text-zinc-500">
+                            <span className="font-semibold text-zinc-700">
+                              {jobTypeLabels[job.type]}
+                            </span>
+                            : {jobPhaseLabels[job.phase]}
+                            {job.message && (
+                              <span className="ml-1 inline-block max-w-xs truncate align-bottom text-zinc-400">
+                                {job.message}
+                              </span>
+                            )}
+                          </p>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap items-center justify-end gap-2">
+                        <input
+                          value={owner}
+                          onChange={(event) =>
+                            setOwnerInputs((prev) => ({
+                              ...prev,
+                              [challenge.id]: event.target.value,
+                            }))
+                          }
+                          className="w-32 rounded-full border border-zinc-300 px-3 py-1 text-xs"
+                          placeholder="Owner (任意)"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          value={ttl}
+                          onChange={(event) =>
+                            setTtlInputs((prev) => ({
+                              ...prev,
+                              [challenge.id]: event.target.value,
+                            }))
+                          }
+                          title="TTL (分)"
+                          aria-label="TTL (分)"
+                          className="w-24 rounded-full border border-zinc-300 px-3 py-1 text-xs"
+                          placeholder={`TTL ${defaultTtlMinutes || "∞"}分`}
+                        />
+                        <button
+                          className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                          onClick={() => handleStart(challenge.id, owner.trim(), ttl)}
+                          disabled={loading || runningCount >= challenge.max_instances}
+                        >
+                          Start
+                        </button>
+                        <button
+                          className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                          onClick={() => handleExport(challenge.id)}
+                          disabled={loading}
+                        >
+                          Export
+                        </button>
+                        <button
+                          className="rounded-full border border-red-200 px-3 py-1 text-xs font-semibold text-red-500 hover:border-red-300"
+                          onClick={() => handleDeleteChallenge(challenge.id)}
+                          disabled={loading}
+                        >
+                          Delete Challenge
+                        </button>
                       </div>
                     </div>
+                    {instances.length === 0 ? (
+                      <p className="mt-3 text-xs text-zinc-400">未起動</p>
+                    ) : (
+                      <ul className="mt-3 divide-y divide-zinc-100 border-t border-zinc-100">
+                        {instances.map((instance) => {
+                          const isRunning = instance.status === "running";
+                          const isStarting = instance.status === "starting";
+                          const isActive = isRunning || isStarting;
+                          return (
+                            <li
+                              key={instance.id}
+                              className="flex flex-wrap items-center justify-between gap-2 py-2"
+                            >
+                              <p className="text-xs font-semibold text-zinc-700">
+                                {instance.owner || "default"} · {instance.status.toUpperCase()}{" "}
+                                · Port {instance.host_port}
+                                {isActive && instance.expires_at && (
+                                  <span className="ml-2 font-mono text-zinc-500">
+                                    残り {formatRemaining(instance.expires_at, now)}
+                                  </span>
+                                )}
+                                {instance.status === "error" && instance.status_reason && (
+                                  <span className="mt-1 block font-normal text-red-500">
+                                    {instance.status_reason}
+                                  </span>
+                                )}
+                              </p>
+                              <div className="flex flex-wrap items-center justify-end gap-2">
+                                <button
+                                  className={`rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold transition ${
+                                    isActive
+                                      ? "text-zinc-600 hover:border-zinc-400"
+                                      : "cursor-not-allowed text-zinc-300"
+                                  }`}
+                                  onClick={() => handleOpen(challenge, instance)}
+                                  disabled={!isActive}
+                                  title={isStarting ? "起動完了後に開きます" : undefined}
+                                >
+                                  {isStarting ? "Open (起動中...)" : "Open"}
+                                </button>
+                                <button
+                                  type="button"
+                                  title="URLをコピー"
+                                  aria-label="URLをコピー"
+                                  className={`inline-flex h-7 w-7 items-center justify-center rounded-full border text-xs font-semibold transition ${
+                                    isRunning
+                                      ? "border-zinc-300 text-zinc-600 hover:border-zinc-400"
+                                      : "cursor-not-allowed border-zinc-200 text-zinc-300"
+                                  }`}
+                                  onClick={() => handleCopyUrl(challenge, instance)}
+                                  disabled={!isRunning}
+                                >
+                                  <span className="text-base">⧉</span>
+                                </button>
+                                <button
+                                  className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                  onClick={() => handleLogs(challenge, instance)}
+                                  disabled={loading}
+                                >
+                                  Logs
+                                </button>
+                                {shellEnabled && (
+                                  <button
+                                    className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                    onClick={() => handleShell(challenge, instance)}
+                                    disabled={loading || !isActive}
+                                  >
+                                    Shell
+                                  </button>
+                                )}
+                                <button
+                                  className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                  onClick={() => handleSnapshots(challenge, instance)}
+                                  disabled={loading}
+                                >
+                                  Snapshots
+                                </button>
+                                {hasFlag && (
+                                  <button
+                                    type="button"
+                                    className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                    onClick={() => handleCopyFlag(instance.id)}
+                                  >
+                                    Flag
+                                  </button>
+                                )}
+                                {isActive && instance.expires_at && (
+                                  <button
+                                    className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                    onClick={() => handleExtend(challenge.id, instance.id)}
+                                    disabled={loading}
+                                  >
+                                    Extend
+                                  </button>
+                                )}
+                                {instance.status !== "stopped" && (
+                                  <button
+                                    className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                    onClick={() =>
+                                      handleInstanceAction(challenge.id, instance.id, "restart")
+                                    }
+                                    disabled={loading}
+                                  >
+                                    Restart
+                                  </button>
+                                )}
+                                <button
+                                  className="rounded-full border border-amber-200 px-3 py-1 text-xs font-semibold text-amber-600 hover:border-amber-300"
+                                  onClick={() =>
+                                    handleInstanceAction(challenge.id, instance.id, "reset")
+                                  }
+                                  disabled={loading}
+                                >
+                                  Reset
+                                </button>
+                                {isActive ? (
+                                  <button
+                                    className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                    onClick={() => handleStop(challenge.id, instance.id)}
+                                    disabled={loading}
+                                  >
+                                    Stop
+                                  </button>
+                                ) : (
+                                  <button
+                                    className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+                                    onClick={() => handleStart(challenge.id, instance.owner)}
+                                    disabled={loading || runningCount >= challenge.max_instances}
+                                  >
+                                    Start
+                                  </button>
+                                )}
+                                <button
+                                  className="rounded-full border border-red-200 px-3 py-1 text-xs font-semibold text-red-500 hover:border-red-300"
+                                  onClick={() => handleDeleteInstance(challenge.id, instance.id)}
+                                  disabled={loading}
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
                   </div>
                 );
               })}
@@ -853,23 +2065,40 @@ export default function Home() {
         </section>
       </div>
 
-      {logsOpen && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
-          <div className="w-full max-w-3xl rounded-3xl border border-zinc-200 bg-white p-6 shadow-xl">
-            <div className="flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-zinc-900">Logs</h3>
-              <button
-                className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600"
-                onClick={() => setLogsOpen(false)}
-              >
-                Close
-              </button>
-            </div>
-            <pre className="mt-4 max-h-[60vh] overflow-auto rounded-2xl bg-zinc-900 p-4 text-xs text-emerald-100">
-{logsText}
-            </pre>
-          </div>
-        </div>
+      {logsTarget && (
+        <LogsModal
+          key={logsTarget.instanceId}
+          instanceId={logsTarget.instanceId}
+          title={logsTarget.title}
+          onClose={() => setLogsTarget(null)}
+        />
+      )}
+      {shellTarget && (
+        <TerminalModal
+          key={shellTarget.instanceId}
+          instanceId={shellTarget.instanceId}
+          title={shellTarget.title}
+          onClose={() => setShellTarget(null)}
+        />
+      )}
+      {snapshotsTarget && (
+        <SnapshotsModal
+          key={snapshotsTarget.instanceId}
+          instanceId={snapshotsTarget.instanceId}
+          title={snapshotsTarget.title}
+          canSnapshotDatabase={
+            challenges.find((item) => item.id === snapshotsTarget.challengeId)?.db_type ===
+              "none" ||
+            details[snapshotsTarget.challengeId]?.instances.some(
+              (item) => item.id === snapshotsTarget.instanceId && item.status === "running"
+            ) === true
+          }
+          onRestored={() => {
+            void fetchDetail(snapshotsTarget.challengeId).catch(() => undefined);
+            void fetchPortSummary().catch(() => undefined);
+          }}
+          onClose={() => setSnapshotsTarget(null)}
+        />
       )}
     </div>
   );
@@ -3,18 +3,87 @@
 import Link from "next/link";
 import { useEffect, useRef, useState } from "react";
 import { AGENT_URL } from "../../lib/api";
+import PortMap from "../../components/port-map";
 
 type PortRangeInput = {
   start: string;
   end: string;
 };
 
+type ResourceLimitsInput = {
+  cpus: string;
+  mem_limit: string;
+  pids_limit: string;
+  nofile: string;
+  nproc: string;
+};
+
+function formatExcludedPorts(ranges: { start: number; end: number }[]): string {
+  return ranges
+    .map((range) => (range.start === range.end ? String(range.start) : `${range.start}-${range.end}`))
+    .join(", ");
+}
+
+function parseExcludedPorts(input: string): { start: number; end: number }[] {
+  return input
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(entry);
+      if (!match) {
+        throw new Error(`除外ポートの形式が不正です: ${entry}`);
+      }
+      const start = Number(match[1]);
+      return { start, end: match[2] ? Number(match[2]) : start };
+    });
+}
+
+function isIpOrEmptyHost(host: string): boolean {
+  const raw = host.trim();
+  if (!raw) {
+    return true;
+  }
+  try {
+    const { hostname } = new URL(/^https?:\/\//.test(raw) ? raw : `http://${raw}`);
+    return hostname.startsWith("[") || /^\d{1,3}(\.\d{1,3}){3}$/.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+const resourceLimitFields: { key: keyof ResourceLimitsInput; label: string; placeholder: string }[] = [
+  { key: "cpus", label: "CPUs", placeholder: "1" },
+  { key: "mem_limit", label: "Memory", placeholder: "1g" },
+  { key: "pids_limit", label: "PIDs", placeholder: "512" },
+  { key: "nofile", label: "ulimit nofile", placeholder: "-" },
+  { key: "nproc", label: "ulimit nproc", placeholder: "-" },
+];
+
 export default function SettingsPage() {
   const [ranges, setRanges] = useState<PortRangeInput[]>([]);
+  const [bindAddress, setBindAddress] = useState("");
+  const [excludedPorts, setExcludedPorts] = useState("");
   const [mysqlRootPassword, setMysqlRootPassword] = useState("");
   const [mysqlDatabase, setMysqlDatabase] = useState("ctf");
   const [mysqlUser, setMysqlUser] = useState("root");
   const [mysqlPassword, setMysqlPassword] = useState("");
+  const [postgresDatabase, setPostgresDatabase] = useState("ctf");
+  const [postgresUser, setPostgresUser] = useState("postgres");
+  const [postgresPassword, setPostgresPassword] = useState("");
+  const [defaultTtlMinutes, setDefaultTtlMinutes] = useState("0");
+  const [resourceLimits, setResourceLimits] = useState<ResourceLimitsInput>({
+    cpus: "",
+    mem_limit: "",
+    pids_limit: "",
+    nofile: "",
+    nproc: "",
+  });
+  const [shellEnabled, setShellEnabled] = useState(false);
+  const [proxyEnabled, setProxyEnabled] = useState(false);
+  const [proxyPort, setProxyPort] = useState("8080");
+  const [proxyMode, setProxyMode] = useState<"host" | "path">("host");
+  const [portsVersion, setPortsVersion] = useState(0);
   const [host, setHost] = useState("");
   const [hostScheme, setHostScheme] = useState<"http" | "https">("http");
   const [error, setError] = useState<string | null>(null);
@@ -34,12 +103,30 @@ export default function SettingsPage() {
           end: String(range.end),
         }));
         setRanges(nextRanges);
+        setBindAddress(data.bind_address ?? "");
+        setExcludedPorts(formatExcludedPorts(data.excluded_ports ?? []));
         setHost(data.host ?? "");
         setHostScheme(data.host_scheme === "https" ? "https" : "http");
         setMysqlRootPassword(data.mysql_root_password ?? "");
         setMysqlDatabase(data.mysql_database ?? "ctf");
         setMysqlUser(data.mysql_user ?? "root");
         setMysqlPassword(data.mysql_password ?? "");
+        setPostgresDatabase(data.postgres_database ?? "ctf");
+        setPostgresUser(data.postgres_user ?? "postgres");
+        setPostgresPassword(data.postgres_password ?? "");
+        setDefaultTtlMinutes(String(data.default_ttl_minutes ?? 0));
+        setShellEnabled(data.shell_enabled === true);
+        setProxyEnabled(data.proxy_enabled === true);
+        setProxyPort(String(data.proxy_port ?? 8080));
+        setProxyMode(data.proxy_mode === "path" ? "path" : "host");
+        const limits = data.resource_limits ?? {};
+        setResourceLimits({
+          cpus: limits.cpus !== undefined ? String(limits.cpus) : "",
+          mem_limit: limits.mem_limit ?? "",
+          pids_limit: limits.pids_limit !== undefined ? String(limits.pids_limit) : "",
+          nofile: limits.ulimits?.nofile !== undefined ? String(limits.ulimits.nofile) : "",
+          nproc: limits.ulimits?.nproc !== undefined ? String(limits.ulimits.nproc) : "",
+        });
       })
       .catch(() => setError("設定の取得に失敗しました"));
   }, []);
@@ -110,12 +197,15 @@ export default function SettingsPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           port_ranges: parsedRanges,
+          bind_address: bindAddress,
+          excluded_ports: parseExcludedPorts(excludedPorts),
         }),
       });
       if (!response.ok) {
         const data = (await response.json()) as { error?: string };
         throw new Error(data.error ?? "保存に失敗しました");
       }
+      setPortsVersion((prev) => prev + 1);
       setNotice("保存しました");
     } catch (err) {
       setError((err as Error).message);
@@ -151,6 +241,134 @@ export default function SettingsPage() {
     }
   };
 
+  const savePostgresSettings = async () => {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      const response = await fetch(`${AGENT_URL}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          postgres_database: postgresDatabase,
+          postgres_user: postgresUser,
+          postgres_password: postgresPassword,
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error ?? "保存に失敗しました");
+      }
+      setNotice("保存しました");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveDefaultTtl = async () => {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      const response = await fetch(`${AGENT_URL}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          default_ttl_minutes: Number(defaultTtlMinutes),
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error ?? "保存に失敗しました");
+      }
+      setNotice("保存しました");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveShellEnabled = async (next: boolean) => {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      const response = await fetch(`${AGENT_URL}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ shell_enabled: next }),
+      });
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error ?? "保存に失敗しました");
+      }
+      setShellEnabled(next);
+      setNotice("保存しました");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveProxySettings = async () => {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      const response = await fetch(`${AGENT_URL}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          proxy_enabled: proxyEnabled,
+          proxy_port: Number(proxyPort),
+          proxy_mode: proxyMode,
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error ?? "保存に失敗しました");
+      }
+      setNotice("保存しました");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveResourceLimits = async () => {
+    setError(null);
+    setNotice(null);
+    setLoading(true);
+    try {
+      const response = await fetch(`${AGENT_URL}/settings`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          resource_limits: {
+            cpus: resourceLimits.cpus,
+            mem_limit: resourceLimits.mem_limit,
+            pids_limit: resourceLimits.pids_limit,
+            ulimits: { nofile: resourceLimits.nofile, nproc: resourceLimits.nproc },
+          },
+        }),
+      });
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error ?? "保存に失敗しました");
+      }
+      setNotice("保存しました");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const saveHost = async () => {
     setError(null);
     setNotice(null);
@@ -185,7 +403,7 @@ export default function SettingsPage() {
           </p>
           <h1 className="text-3xl font-semibold text-zinc-900">Settings</h1>
           <p className="mt-2 text-sm text-zinc-600">
-            起動設定とMySQL認証情報をまとめて管理します。
+            起動設定とDB認証情報をまとめて管理します。
           </p>
         </div>
         <Link
@@ -214,7 +432,7 @@ export default function SettingsPage() {
         <div className="mb-4">
           <h2 className="text-lg font-semibold text-zinc-900">Port Ranges</h2>
           <p className="mt-1 text-sm text-zinc-600">
-            空きポート探索に利用する範囲を指定します。
+            空きポート探索に利用する範囲と、公開するアドレスを指定します。
           </p>
         </div>
         <div className="space-y-4">
@@ -247,6 +465,28 @@ export default function SettingsPage() {
             </div>
           ))}
         </div>
+        <div className="mt-4 grid gap-4 sm:grid-cols-2">
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Bind Address</span>
+            <input
+              type="text"
+              value={bindAddress}
+              onChange={(event) => setBindAddress(event.target.value)}
+              className="rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+              placeholder="空欄で全インターフェース (例: 127.0.0.1, ::1)"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Excluded Ports</span>
+            <input
+              type="text"
+              value={excludedPorts}
+              onChange={(event) => setExcludedPorts(event.target.value)}
+              className="rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+              placeholder="43010, 43020-43030"
+            />
+          </label>
+        </div>
         <div className="mt-6 flex flex-wrap gap-3">
           <button
             className="rounded-full border border-zinc-300 px-4 py-2 text-sm font-semibold text-zinc-700 hover:border-zinc-400"
@@ -264,6 +504,8 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      <PortMap version={portsVersion} />
+
       <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
         <div className="mb-4">
           <h2 className="text-lg font-semibold text-zinc-900">Host</h2>
@@ -305,6 +547,143 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-zinc-900">Instance TTL</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            起動したインスタンスを自動停止するまでの既定時間（分）です。0で無期限になります。
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Default TTL (min)</span>
+            <input
+              type="number"
+              min={0}
+              value={defaultTtlMinutes}
+              onChange={(event) => setDefaultTtlMinutes(event.target.value)}
+              className="w-40 rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+            />
+          </label>
+          <button
+            className="h-10 rounded-full bg-[#1d1d1f] px-4 py-2 text-sm font-semibold text-white hover:bg-[#2a2a2c]"
+            onClick={saveDefaultTtl}
+            disabled={loading}
+          >
+            Save
+          </button>
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-zinc-900">Container Shell</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            ブラウザからコンテナ内のシェルを操作できるようにします。無効にすると接続中のシェルも切断されます。
+          </p>
+        </div>
+        <label className="flex items-center gap-3 text-sm text-zinc-700">
+          <input
+            type="checkbox"
+            checked={shellEnabled}
+            onChange={(event) => saveShellEnabled(event.target.checked)}
+            disabled={loading}
+            className="h-4 w-4"
+          />
+          Shellを有効にする
+        </label>
+      </section>
+
+      <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-zinc-900">Reverse Proxy</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            1つのポートで全インスタンスを公開します。host は slug.{host || "<Host>"}、path は
+            /c/slug/ で振り分けます。
+          </p>
+          {proxyMode === "host" && isIpOrEmptyHost(host) && (
+            <p className="mt-2 rounded-2xl bg-amber-50 px-3 py-2 text-xs text-amber-700">
+              HostがIPアドレスまたは未設定のため、host モードでもURLは /c/slug/ 形式になります。
+              サブドメインで振り分けるにはHostにドメイン名を設定してください。
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex h-10 items-center gap-3 text-sm text-zinc-700">
+            <input
+              type="checkbox"
+              checked={proxyEnabled}
+              onChange={(event) => setProxyEnabled(event.target.checked)}
+              className="h-4 w-4"
+            />
+            有効にする
+          </label>
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Port</span>
+            <input
+              type="number"
+              min={1}
+              max={65535}
+              value={proxyPort}
+              onChange={(event) => setProxyPort(event.target.value)}
+              className="w-32 rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Routing</span>
+            <select
+              value={proxyMode}
+              onChange={(event) => setProxyMode(event.target.value === "path" ? "path" : "host")}
+              className="h-10 rounded-2xl border border-zinc-200 bg-white px-3 text-sm"
+            >
+              <option value="host">host (slug.host)</option>
+              <option value="path">path (/c/slug/)</option>
+            </select>
+          </label>
+          <button
+            className="h-10 rounded-full bg-[#1d1d1f] px-4 py-2 text-sm font-semibold text-white hover:bg-[#2a2a2c]"
+            onClick={saveProxySettings}
+            disabled={loading}
+          >
+            Save
+          </button>
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-zinc-900">Resource Limits</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            appとdbコンテナに適用する既定の制限です。Challengeごとに上書きできます。空欄は無制限です。
+          </p>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-3">
+          {resourceLimitFields.map((field) => (
+            <label key={field.key} className="flex flex-col text-sm">
+              <span className="text-xs uppercase tracking-wide text-zinc-500">{field.label}</span>
+              <input
+                type="text"
+                value={resourceLimits[field.key]}
+                onChange={(event) =>
+                  setResourceLimits((prev) => ({ ...prev, [field.key]: event.target.value }))
+                }
+                className="rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+                placeholder={field.placeholder}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="mt-6 flex flex-wrap gap-3">
+          <button
+            className="rounded-full bg-[#1d1d1f] px-4 py-2 text-sm font-semibold text-white hover:bg-[#2a2a2c]"
+            onClick={saveResourceLimits}
+            disabled={loading}
+          >
+            Save
+          </button>
+        </div>
+      </section>
+
       <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
         <div className="mb-4">
           <h2 className="text-lg font-semibold text-zinc-900">MySQL</h2>
@@ -366,6 +745,53 @@ export default function SettingsPage() {
           </button>
         </div>
       </section>
+
+      <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-zinc-900">PostgreSQL</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            ChallengeでPostgreSQLを選択した場合に使用される認証情報です。
+          </p>
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Database</span>
+            <input
+              type="text"
+              value={postgresDatabase}
+              onChange={(event) => setPostgresDatabase(event.target.value)}
+              className="rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Username</span>
+            <input
+              type="text"
+              value={postgresUser}
+              onChange={(event) => setPostgresUser(event.target.value)}
+              className="rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+            />
+          </label>
+          <label className="flex flex-col text-sm">
+            <span className="text-xs uppercase tracking-wide text-zinc-500">Password</span>
+            <input
+              type="text"
+              value={postgresPassword}
+              onChange={(event) => setPostgresPassword(event.target.value)}
+              className="rounded-2xl border border-zinc-200 bg-white px-3 py-2"
+            />
+          </label>
+        </div>
+        <div className="mt-6 flex flex-wrap gap-3">
+          <button
+            className="rounded-full bg-[#1d1d1f] px-4 py-2 text-sm font-semibold text-white hover:bg-[#2a2a2c]"
+            onClick={savePostgresSettings}
+            disabled={loading}
+          >
+            Save
+          </button>
+        </div>
+      </section>
     </div>
   );
 }
@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AGENT_URL } from "../lib/api";
+
+const MAX_LINES = 5000;
+
+type StreamStatus = "connecting" | "streaming" | "ended" | "archived";
+
+type LogSession = {
+  id: string;
+  stopped_at: string;
+  reason: string;
+  services: { service: string; size: number; truncated: boolean }[];
+};
+
+const sessionReasonLabels: Record<string, string> = {
+  stop: "Stop",
+  expired: "期限切れ",
+  error: "エラー後の再起動",
+  reset: "Reset",
+  restore: "Restore",
+};
+
+type LogsModalProps = {
+  instanceId: string;
+  title: string;
+  onClose: () => void;
+};
+
+export default function LogsModal({ instanceId, title, onClose }: LogsModalProps) {
+  const [services, setServices] = useState<string[]>([]);
+  const [sessions, setSessions] = useState<LogSession[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [service, setService] = useState("");
+  const [lines, setLines] = useState<string[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [status, setStatus] = useState<StreamStatus>("connecting");
+  const [message, setMessage] = useState<string | null>(null);
+  const pausedRef = useRef(false);
+  const pendingRef = useRef<string[]>([]);
+  const preRef = useRef<HTMLPreElement | null>(null);
+
+  useEffect(() => {
+    fetch(`${AGENT_URL}/instances/${instanceId}/services`)
+      .then((res) => (res.ok ? res.json() : { services: [] }))
+      .then((data: { services?: string[] }) => setServices(data.services ?? []))
+      .catch(() => undefined);
+    fetch(`${AGENT_URL}/instances/${instanceId}/logs/sessions`)
+      .then((res) => (res.ok ? res.json() : { sessions: [] }))
+      .then((data: { sessions?: LogSession[] }) => setSessions(data.sessions ?? []))
+      .catch(() => undefined);
+  }, [instanceId]);
+
+  const session = sessions.find((item) => item.id === sessionId) ?? null;
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    let cancelled = false;
+    const targets = service ? [service] : session.services.map((item) => item.service);
+    Promise.all(
+      targets.map(async (target) => {
+        const query = new URLSearchParams({ service: target });
+        const response = await fetch(
+          `${AGENT_URL}/instances/${instanceId}/logs/sessions/${session.id}?${query}`
+        );
+        const data = (await response.json()) as { logs?: string; error?: string };
+        if (!response.ok) {
+          throw new Error(data.error ?? "ログ取得に失敗しました");
+        }
+        const logLines = (data.logs ?? "").split("\n").filter(Boolean);
+        return service ? logLines : logLines.map((line) => `${target} | ${line}`);
+      })
+    )
+      .then((results) => {
+        if (!cancelled) {
+          setLines(results.flat().slice(-MAX_LINES));
+          setStatus("archived");
+        }
+      })
+      .catch((err: Error) => {
+        if (!cancelled) {
+          setStatus("archived");
+          setMessage(err.message);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [instanceId, session, service]);
+
+  useEffect(() => {
+    if (sessionId) {
+      return;
+    }
+    const query = new URLSearchParams({ tail: "200" });
+    if (service) {
+      query.set("service", service);
+    }
+    const source = new EventSource(`${AGENT_URL}/instances/${instanceId}/logs/stream?${query}`);
+    source.addEventListener("open", () => setStatus("streaming"));
+    source.addEventListener("log", (event) => {
+      const line = JSON.parse((event as MessageEvent<string>).data) as string;
+      if (pausedRef.current) {
+        pendingRef.current.push(line);
+        setPendingCount(pendingRef.current.length);
+        return;
+      }
+      setLines((prev) => [...prev, line].slice(-MAX_LINES));
+    });
+    source.addEventListener("stderr", (event) => {
+      setMessage(JSON.parse((event as MessageEvent<string>).data) as string);
+    });
+    source.addEventListener("end", (event) => {
+      source.close();
+      setStatus("ended");
+      setMessage(JSON.parse((event as MessageEvent<string>).data) as string);
+    });
+    source.onerror = () => {
+      source.close();
+      setStatus("ended");
+      setMessage((prev) => prev ?? "ログストリームが切断されました");
+    };
+    return () => source.close();
+  }, [instanceId, sessionId, service]);
+
+  useEffect(() => {
+    if (!paused && preRef.current) {
+      preRef.current.scrollTop = preRef.current.scrollHeight;
+    }
+  }, [lines, paused]);
+
+  const resetView = () => {
+    pendingRef.current = [];
+    pausedRef.current = false;
+    setPaused(false);
+    setPendingCount(0);
+    setLines([]);
+    setStatus("connecting");
+    setMessage(null);
+  };
+
+  const selectService = (next: string) => {
+    if (next === service) {
+      return;
+    }
+    resetView();
+    setService(next);
+  };
+
+  const selectSession = (next: string) => {
+    if (next === sessionId) {
+      return;
+    }
+    resetView();
+    setService("");
+    setSessionId(next);
+  };
+
+  const togglePause = () => {
+    if (paused) {
+      const pending = pendingRef.current;
+      pendingRef.current = [];
+      setPendingCount(0);
+      setLines((prev) => [...prev, ...pending].slice(-MAX_LINES));
+    }
+    pausedRef.current = !paused;
+    setPaused(!paused);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([[...lines, ...pendingRef.current].join("\n")], {
+      type: "text/plain",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `logs-${instanceId}-${sessionId || "live"}-${service || "all"}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const tabs = ["", ...(session ? session.services.map((item) => item.service) : services)];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="w-full max-w-4xl rounded-3xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-zinc-900">Logs</h3>
+            <p className="text-xs text-zinc-500">
+              {title} ·{" "}
+              {status === "connecting"
+                ? "接続中..."
+                : status === "streaming"
+                  ? "LIVE"
+                  : status === "archived"
+                    ? "保存済みログ"
+                    : "停止"}
+              {paused && pendingCount > 0 && ` · 一時停止中 (${pendingCount}行)`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={sessionId}
+              onChange={(event) => selectSession(event.target.value)}
+              className="rounded-full border border-zinc-300 bg-white px-3 py-1 text-xs text-zinc-600"
+            >
+              <option value="">Live</option>
+              {sessions.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {`${new Date(item.stopped_at).toLocaleString()} (${
+                    sessionReasonLabels[item.reason] ?? item.reason
+                  })`}
+                </option>
+              ))}
+            </select>
+            <button
+              className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+              onClick={togglePause}
+              disabled={Boolean(session) || (status === "ended" && !paused)}
+            >
+              {paused ? "Resume" : "Pause"}
+            </button>
+            <button
+              className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+              onClick={handleDownload}
+            >
+              Download
+            </button>
+            <button
+              className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {tabs.map((tab) => (
+            <button
+              key={tab || "all"}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                service === tab
+                  ? "bg-zinc-900 text-white"
+                  : "border border-zinc-300 text-zinc-600 hover:border-zinc-400"
+              }`}
+              onClick={() => selectService(tab)}
+            >
+              {tab || "all"}
+            </button>
+          ))}
+        </div>
+        <pre
+          ref={preRef}
+          className="mt-3 h-[60vh] overflow-auto rounded-2xl bg-zinc-900 p-4 text-xs text-emerald-100"
+        >
+          {lines.length > 0 ? lines.join("\n") : "(No logs)"}
+        </pre>
+        {message && <p className="mt-2 text-xs text-zinc-500">{message}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AGENT_URL } from "../lib/api";
+
+const MAX_PORTS_PER_RANGE = 2048;
+
+type PortLease = {
+  port: number;
+  instance_id: string;
+  challenge_name: string | null;
+  owner: string | null;
+  status: "starting" | "running" | "stopped" | "error" | null;
+};
+
+type PinnedPort = {
+  port: number;
+  challenge_id: string;
+  challenge_name: string;
+};
+
+type PortMapData = {
+  ranges: { start: number; end: number }[];
+  excluded: { start: number; end: number }[];
+  leases: PortLease[];
+  pinned: PinnedPort[];
+};
+
+function describeLease(lease: PortLease): string {
+  return `${lease.port}: ${lease.challenge_name ?? "不明"} (${lease.owner || "Ownerなし"}) · ${
+    lease.status ?? "unknown"
+  }`;
+}
+
+function cellClassName(
+  lease: PortLease | undefined,
+  pinned: PinnedPort | undefined,
+  excluded: boolean
+): string {
+  if (lease?.status === "running" || lease?.status === "starting") {
+    return "bg-emerald-500";
+  }
+  if (lease) {
+    return "bg-amber-400";
+  }
+  if (pinned) {
+    return "border border-sky-400 bg-sky-100";
+  }
+  if (excluded) {
+    return "bg-zinc-500";
+  }
+  return "bg-zinc-200";
+}
+
+type PortMapProps = {
+  version: number;
+};
+
+export default function PortMap({ version }: PortMapProps) {
+  const [data, setData] = useState<PortMapData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPorts = useCallback(async () => {
+    const response = await fetch(`${AGENT_URL}/ports`);
+    const body = (await response.json()) as PortMapData & { error?: string };
+    if (!response.ok) {
+      throw new Error(body.error ?? "ポート情報の取得に失敗しました");
+    }
+    return body;
+  }, []);
+
+  const refresh = () => {
+    fetchPorts()
+      .then((next) => {
+        setData(next);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+  };
+
+  useEffect(() => {
+    fetchPorts()
+      .then(setData)
+      .catch((err: Error) => setError(err.message));
+  }, [fetchPorts, version]);
+
+  const leases = new Map((data?.leases ?? []).map((lease) => [lease.port, lease]));
+  const pinned = new Map((data?.pinned ?? []).map((item) => [item.port, item]));
+  const outOfRange = (data?.leases ?? []).filter(
+    (lease) => !data?.ranges.some((range) => lease.port >= range.start && lease.port <= range.end)
+  );
+
+  return (
+    <section className="mt-6 rounded-3xl border border-zinc-200 bg-white/80 p-6 shadow-sm">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900">Port Map</h2>
+          <p className="mt-1 text-sm text-zinc-600">
+            ポート範囲内の割り当て状況です。セルにカーソルを合わせると使用中のインスタンスを表示します。
+          </p>
+        </div>
+        <button
+          className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+          onClick={refresh}
+        >
+          Refresh
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      {data && (
+        <div className="space-y-4">
+          {data.ranges.map((range) => {
+            const count = range.end - range.start + 1;
+            const ports = Array.from(
+              { length: Math.min(count, MAX_PORTS_PER_RANGE) },
+              (_, index) => range.start + index
+            );
+            const used = data.leases.filter(
+              (lease) => lease.port >= range.start && lease.port <= range.end
+            ).length;
+            return (
+              <div key={`${range.start}-${range.end}`}>
+                <p className="mb-2 font-mono text-xs text-zinc-500">
+                  {range.start}–{range.end} · 割り当て {used} / {count}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {ports.map((port) => {
+                    const lease = leases.get(port);
+                    const pin = pinned.get(port);
+                    const excluded = data.excluded.some(
+                      (item) => port >= item.start && port <= item.end
+                    );
+                    const title = [
+                      lease ? describeLease(lease) : `${port}: ${excluded ? "除外" : "空き"}`,
+                      pin ? `「${pin.challenge_name}」に固定` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ");
+                    return (
+                      <span
+                        key={port}
+                        title={title}
+                        className={`h-3 w-3 rounded-sm ${cellClassName(lease, pin, excluded)}`}
+                      />
+                    );
+                  })}
+                </div>
+                {count > MAX_PORTS_PER_RANGE && (
+                  <p className="mt-1 text-xs text-zinc-400">
+                    先頭{MAX_PORTS_PER_RANGE}ポートのみ表示しています
+                  </p>
+                )}
+              </div>
+            );
+          })}
+          {outOfRange.length > 0 && (
+            <div>
+              <p className="mb-1 text-xs font-semibold text-zinc-600">範囲外の割り当て</p>
+              <ul className="space-y-0.5 font-mono text-xs text-zinc-500">
+                {outOfRange.map((lease) => (
+                  <li key={lease.port}>{describeLease(lease)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-4 text-xs text-zinc-500">
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm bg-emerald-500" /> 起動中
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm bg-amber-400" /> 停止中 (予約済み)
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm border border-sky-400 bg-sky-100" /> 固定 (未使用)
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm bg-zinc-500" /> 除外
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 rounded-sm bg-zinc-200" /> 空き
+            </span>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AGENT_URL } from "../lib/api";
+import { jobPhaseLabels, readJob, waitForJob } from "../lib/jobs";
+
+type Snapshot = {
+  id: string;
+  name: string;
+  created_at: string;
+  db_type: "none" | "mysql" | "postgres";
+  has_database: boolean;
+  size: number;
+};
+
+type SnapshotsModalProps = {
+  instanceId: string;
+  title: string;
+  canSnapshotDatabase: boolean;
+  onRestored: () => void;
+  onClose: () => void;
+};
+
+function formatSize(size: number): string {
+  if (size >= 1024 * 1024) {
+    return `${(size / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${Math.max(1, Math.round(size / 1024))} KB`;
+}
+
+export default function SnapshotsModal({
+  instanceId,
+  title,
+  canSnapshotDatabase,
+  onRestored,
+  onClose,
+}: SnapshotsModalProps) {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [name, setName] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    const response = await fetch(`${AGENT_URL}/instances/${instanceId}/snapshots`);
+    const data = (await response.json()) as { snapshots?: Snapshot[]; error?: string };
+    if (!response.ok) {
+      throw new Error(data.error ?? "スナップショットの取得に失敗しました");
+    }
+    return data.snapshots ?? [];
+  }, [instanceId]);
+
+  useEffect(() => {
+    fetchSnapshots()
+      .then(setSnapshots)
+      .catch((err: Error) => setError(err.message));
+  }, [fetchSnapshots]);
+
+  const runAction = async (label: string, action: () => Promise<string>) => {
+    setError(null);
+    setNotice(null);
+    setBusy(label);
+    try {
+      setNotice(await action());
+      setSnapshots(await fetchSnapshots());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () =>
+    runAction("作成中...", async () => {
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/instances/${instanceId}/snapshots`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name }),
+        }),
+        "スナップショットの作成に失敗しました"
+      );
+      await waitForJob(job.id, (next) => setBusy(jobPhaseLabels[next.phase]));
+      setName("");
+      return "スナップショットを作成しました";
+    });
+
+  const handleRestore = (snapshot: Snapshot) => {
+    if (
+      !confirm(
+        `「${snapshot.name}」の状態に戻して起動し直します。現在のファイルとDBは失われます。よろしいですか？`
+      )
+    ) {
+      return;
+    }
+    void runAction("リストア中...", async () => {
+      const job = await readJob(
+        await fetch(`${AGENT_URL}/instances/${instanceId}/snapshots/${snapshot.id}/restore`, {
+          method: "POST",
+        }),
+        "リストアに失敗しました"
+      );
+      try {
+        await waitForJob(job.id, (next) => setBusy(jobPhaseLabels[next.phase]));
+      } finally {
+        onRestored();
+      }
+      return `「${snapshot.name}」をリストアしました`;
+    });
+  };
+
+  const handleDelete = (snapshot: Snapshot) => {
+    if (!confirm(`「${snapshot.name}」を削除しますか？`)) {
+      return;
+    }
+    void runAction("削除中...", async () => {
+      const response = await fetch(
+        `${AGENT_URL}/instances/${instanceId}/snapshots/${snapshot.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        const data = (await response.json()) as { error?: string };
+        throw new Error(data.error ?? "削除に失敗しました");
+      }
+      return "スナップショットを削除しました";
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="w-full max-w-2xl rounded-3xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-zinc-900">Snapshots</h3>
+            <p className="text-xs text-zinc-500">
+              {title}
+              {busy && ` · ${busy}`}
+            </p>
+          </div>
+          <button
+            className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600"
+            onClick={onClose}
+            disabled={Boolean(busy)}
+          >
+            Close
+          </button>
+        </div>
+        <div className="mt-4 flex gap-2">
+          <input
+            className="flex-1 rounded-full border border-zinc-300 px-3 py-1 text-sm"
+            placeholder="スナップショット名"
+            value={name}
+            maxLength={64}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <button
+            className="rounded-full bg-zinc-900 px-4 py-1 text-xs font-semibold text-white disabled:bg-zinc-300"
+            onClick={handleCreate}
+            disabled={Boolean(busy) || !name.trim() || !canSnapshotDatabase}
+          >
+            Save
+          </button>
+        </div>
+        {!canSnapshotDatabase && (
+          <p className="mt-2 text-xs text-zinc-500">
+            DBを含むスナップショットはインスタンスの起動中のみ作成できます
+          </p>
+        )}
+        {snapshots.length === 0 ? (
+          <p className="mt-4 text-sm text-zinc-500">スナップショットはありません</p>
+        ) : (
+          <ul className="mt-4 max-h-[50vh] space-y-2 overflow-auto">
+            {snapshots.map((snapshot) => (
+              <li
+                key={snapshot.id}
+                className="flex items-center justify-between gap-3 rounded-2xl border border-zinc-200 px-4 py-3"
+              >
+                <div>
+                  <p className="text-sm font-semibold text-zinc-900">{snapshot.name}</p>
+                  <p className="text-xs text-zinc-500">
+                    {new Date(snapshot.created_at).toLocaleString()} ·{" "}
+                    {snapshot.has_database ? `ファイル + ${snapshot.db_type}` : "ファイルのみ"} ·{" "}
+                    {formatSize(snapshot.size)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className="rounded-full border border-amber-200 px-3 py-1 text-xs font-semibold text-amber-600 hover:border-amber-300"
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={Boolean(busy)}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    className="rounded-full border border-red-200 px-3 py-1 text-xs font-semibold text-red-500 hover:border-red-300"
+                    onClick={() => handleDelete(snapshot)}
+                    disabled={Boolean(busy)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {error && <p className="mt-3 text-xs text-red-500">{error}</p>}
+        {notice && <p className="mt-3 text-xs text-emerald-600">{notice}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import "@xterm/xterm/css/xterm.css";
+import { AGENT_URL } from "../lib/api";
+
+type ConnectionStatus = "connecting" | "connected" | "closed";
+
+type ShellMessage =
+  | { type: "output"; data: string }
+  | { type: "exit"; code: number }
+  | { type: "error"; message: string };
+
+type TerminalModalProps = {
+  instanceId: string;
+  title: string;
+  onClose: () => void;
+};
+
+export default function TerminalModal({ instanceId, title, onClose }: TerminalModalProps) {
+  const [services, setServices] = useState<string[]>([]);
+  const [service, setService] = useState("app");
+  const [session, setSession] = useState(0);
+  const [status, setStatus] = useState<ConnectionStatus>("connecting");
+  const [message, setMessage] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    fetch(`${AGENT_URL}/instances/${instanceId}/services`)
+      .then((res) => (res.ok ? res.json() : { services: [] }))
+      .then((data: { services?: string[] }) => setServices(data.services ?? []))
+      .catch(() => undefined);
+  }, [instanceId]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    let disposed = false;
+    let cleanup: (() => void) | null = null;
+
+    Promise.all([import("@xterm/xterm"), import("@xterm/addon-fit")]).then(
+      ([{ Terminal }, { FitAddon }]) => {
+        if (disposed) {
+          return;
+        }
+        const terminal = new Terminal({
+          cursorBlink: true,
+          fontSize: 13,
+          theme: { background: "#18181b" },
+        });
+        const fitAddon = new FitAddon();
+        terminal.loadAddon(fitAddon);
+        terminal.open(container);
+        fitAddon.fit();
+        terminal.focus();
+
+        const query = new URLSearchParams({
+          service,
+          cols: String(terminal.cols),
+          rows: String(terminal.rows),
+        });
+        const socket = new WebSocket(
+          `${AGENT_URL.replace(/^http/, "ws")}/instances/${instanceId}/shell?${query}`
+        );
+        const send = (payload: Record<string, unknown>) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(payload));
+          }
+        };
+        socket.addEventListener("open", () => setStatus("connected"));
+        socket.addEventListener("message", (event) => {
+          const payload = JSON.parse(String(event.data)) as ShellMessage;
+          if (payload.type === "output") {
+            terminal.write(payload.data);
+          } else if (payload.type === "exit") {
+            setMessage(`シェルが終了しました (exit code ${payload.code})`);
+          } else {
+            setMessage(payload.message);
+          }
+        });
+        socket.addEventListener("close", (event) => {
+          if (disposed) {
+            return;
+          }
+          setStatus("closed");
+          if (event.code === 1006) {
+            setMessage(
+              (prev) =>
+                prev ?? "接続できませんでした。SettingsでShellが有効か確認してください"
+            );
+          }
+        });
+        const input = terminal.onData((data) => send({ type: "input", data }));
+        const resize = terminal.onResize(({ cols, rows }) => send({ type: "resize", cols, rows }));
+        const observer = new ResizeObserver(() => fitAddon.fit());
+        observer.observe(container);
+
+        cleanup = () => {
+          observer.disconnect();
+          input.dispose();
+          resize.dispose();
+          socket.close();
+          terminal.dispose();
+        };
+      }
+    );
+
+    return () => {
+      disposed = true;
+      cleanup?.();
+    };
+  }, [instanceId, service, session]);
+
+  const selectService = (next: string) => {
+    if (next === service) {
+      return;
+    }
+    setStatus("connecting");
+    setMessage(null);
+    setService(next);
+  };
+
+  const reconnect = () => {
+    setStatus("connecting");
+    setMessage(null);
+    setSession((prev) => prev + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="w-full max-w-4xl rounded-3xl border border-zinc-200 bg-white p-6 shadow-xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-zinc-900">Shell</h3>
+            <p className="text-xs text-zinc-500">
+              {title} · {service} ·{" "}
+              {status === "connecting" ? "接続中..." : status === "connected" ? "接続済み" : "切断"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600 hover:border-zinc-400"
+              onClick={reconnect}
+              disabled={status !== "closed"}
+            >
+              Reconnect
+            </button>
+            <button
+              className="rounded-full border border-zinc-300 px-3 py-1 text-xs font-semibold text-zinc-600"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {(services.length > 0 ? services : [service]).map((tab) => (
+            <button
+              key={tab}
+              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                service === tab
+                  ? "bg-zinc-900 text-white"
+                  : "border border-zinc-300 text-zinc-600 hover:border-zinc-400"
+              }`}
+              onClick={() => selectService(tab)}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+        <div
+          ref={containerRef}
+          key={`${service}-${session}`}
+          className="mt-3 h-[60vh] overflow-hidden rounded-2xl bg-zinc-900 p-2"
+        />
+        {message && <p className="mt-2 text-xs text-zinc-500">{message}</p>}
+      </div>
+    </div>
+  );
+}
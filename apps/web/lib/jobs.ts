@@ -0,0 +1,96 @@
+import { AGENT_URL } from "./api";
+
+const POLL_INTERVAL_MS = 1000;
+
+export type JobPhase =
+  | "queued"
+  | "extract"
+  | "validate"
+  | "copy"
+  | "render"
+  | "build"
+  | "up"
+  | "ready"
+  | "stop"
+  | "snapshot"
+  | "restore"
+  | "cleanup"
+  | "done";
+
+export type Job = {
+  id: string;
+  type:
+    | "start"
+    | "stop"
+    | "delete"
+    | "import"
+    | "restart"
+    | "reset"
+    | "snapshot"
+    | "restore"
+    | "delete_challenge";
+  status: "queued" | "running" | "succeeded" | "failed";
+  phase: JobPhase;
+  message: string | null;
+  error: string | null;
+  challenge_id: string | null;
+  instance_id: string | null;
+  result: unknown;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+};
+
+export const jobTypeLabels: Record<Job["type"], string> = {
+  start: "起動",
+  stop: "停止",
+  delete: "削除",
+  import: "インポート",
+  restart: "再起動",
+  reset: "リセット",
+  snapshot: "スナップショット作成",
+  restore: "リストア",
+  delete_challenge: "Challenge削除",
+};
+
+export const jobPhaseLabels: Record<JobPhase, string> = {
+  queued: "待機中",
+  extract: "ZIPを展開中",
+  validate: "内容を検証中",
+  copy: "ファイルをコピー中",
+  render: "Composeを生成中",
+  build: "イメージをビルド中",
+  up: "コンテナを起動中",
+  ready: "起動確認中",
+  stop: "コンテナを停止中",
+  snapshot: "スナップショットを作成中",
+  restore: "DBを復元中",
+  cleanup: "後片付け中",
+  done: "完了",
+};
+
+export async function readJob(response: Response, fallback: string): Promise<Job> {
+  const data = (await response.json()) as Job & { error?: string };
+  if (!response.ok) {
+    throw new Error(data.error ?? fallback);
+  }
+  return data;
+}
+
+export async function waitForJob(jobId: string, onUpdate?: (job: Job) => void): Promise<Job> {
+  for (;;) {
+    const job = await readJob(
+      await fetch(`${AGENT_URL}/jobs/${jobId}`),
+      "ジョブの取得に失敗しました"
+    );
+    onUpdate?.(job);
+    if (job.status === "succeeded") {
+      return job;
+    }
+    if (job.status === "failed") {
+      throw new Error(job.error ?? `${jobTypeLabels[job.type]}に失敗しました`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
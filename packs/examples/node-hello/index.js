@@ -0,0 +1,9 @@
+const express = require("express");
+
+const app = express();
+
+app.get("/", (req, res) => {
+  res.send("Hello from Node.js CTF!");
+});
+
+app.listen(Number(process.env.PORT ?? "3000"), "0.0.0.0");
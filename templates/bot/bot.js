@@ -0,0 +1,126 @@
+const http = require("node:http");
+const puppeteer = require("puppeteer-core");
+
+const port = Number(process.env.BOT_PORT ?? "3000");
+const allowedOrigin = process.env.BOT_ALLOWED_ORIGIN ?? "http://app";
+const cookieName = process.env.BOT_COOKIE_NAME ?? "flag";
+const cookieValue = process.env.BOT_COOKIE_VALUE ?? "";
+const cookieDomain = process.env.BOT_COOKIE_DOMAIN ?? "app";
+const visitTimeout = Number(process.env.BOT_VISIT_TIMEOUT_MS ?? "10000");
+const maxQueue = 20;
+
+const queue = [];
+let running = false;
+
+function log(message) {
+  console.log(`[bot] ${new Date().toISOString()} ${message}`);
+}
+
+function isAllowed(target) {
+  try {
+    const url = new URL(target);
+    const allowed = new URL(allowedOrigin);
+    return (url.protocol === "http:" || url.protocol === "https:") && url.origin === allowed.origin;
+  } catch {
+    return false;
+  }
+}
+
+async function visit(target) {
+  const browser = await puppeteer.launch({
+    executablePath: process.env.CHROMIUM_PATH,
+    headless: true,
+    args: ["--no-sandbox", "--disable-dev-shm-usage", "--disable-gpu"],
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setCookie({
+      name: cookieName,
+      value: cookieValue,
+      domain: cookieDomain,
+      path: "/",
+      httpOnly: false,
+    });
+    page.setDefaultNavigationTimeout(visitTimeout);
+    log(`visiting ${target}`);
+    await page.goto(target, { waitUntil: "load" }).catch((err) => log(`navigation: ${err.message}`));
+    await new Promise((resolve) => setTimeout(resolve, visitTimeout));
+  } finally {
+    await browser.close();
+  }
+}
+
+async function drain() {
+  if (running) {
+    return;
+  }
+  running = true;
+  while (queue.length > 0) {
+    const target = queue.shift();
+    try {
+      await visit(target);
+      log(`done ${target}`);
+    } catch (err) {
+      log(`failed ${target}: ${err.message}`);
+    }
+  }
+  running = false;
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+      if (body.length > 8192) {
+        reject(new Error("body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function send(res, status, payload) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+http
+  .createServer(async (req, res) => {
+    const { pathname, searchParams } = new URL(req.url ?? "/", "http://bot");
+    if (pathname === "/health") {
+      send(res, 200, { status: "ok" });
+      return;
+    }
+    if (pathname !== "/visit" || (req.method !== "POST" && req.method !== "GET")) {
+      send(res, 404, { error: "not found" });
+      return;
+    }
+    let target = searchParams.get("url") ?? "";
+    if (req.method === "POST") {
+      try {
+        const raw = await readBody(req);
+        const type = req.headers["content-type"] ?? "";
+        target = type.includes("application/json")
+          ? String(JSON.parse(raw).url ?? "")
+          : new URLSearchParams(raw).get("url") ?? "";
+      } catch {
+        send(res, 400, { error: "invalid body" });
+        return;
+      }
+    }
+    if (!isAllowed(target)) {
+      send(res, 400, { error: `url must start with ${allowedOrigin}` });
+      return;
+    }
+    if (queue.length >= maxQueue) {
+      send(res, 429, { error: "queue is full" });
+      return;
+    }
+    queue.push(target);
+    drain();
+    send(res, 202, { status: "queued" });
+  })
+  .listen(port, "0.0.0.0", () => log(`listening on ${port}, allowed origin ${allowedOrigin}`));